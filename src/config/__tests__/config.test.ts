@@ -26,6 +26,51 @@ describe("config", () => {
 		delete process.env.BREWERY_API_URL;
 		delete process.env.PORT;
 		delete process.env.JWT_SECRET;
+		delete process.env.GUEST_CART_TTL_SECONDS;
+		delete process.env.DEFAULT_PROVINCE;
+		delete process.env.TAX_RATES_FILE;
+		delete process.env.DEPOSIT_SCHEDULE_FILE;
+		delete process.env.LEGAL_DRINKING_AGE;
+		delete process.env.PURCHASE_LIMITS_FILE;
+		delete process.env.MAX_ORDER_VOLUME_LITRES;
+		delete process.env.RESERVATION_TTL_SECONDS;
+		delete process.env.RESERVATION_SWEEP_INTERVAL_SECONDS;
+		delete process.env.INVENTORY_CONCURRENCY;
+		delete process.env.INVENTORY_BATCH_LOOKUPS;
+		delete process.env.INVENTORY_CACHE_TTL_SECONDS;
+		delete process.env.INVENTORY_CACHE_STALE_SECONDS;
+		delete process.env.INVENTORY_CACHE_MAX_ENTRIES;
+		delete process.env.UPSTREAM_TIMEOUT_MS;
+		delete process.env.UPSTREAM_RETRIES;
+		delete process.env.UPSTREAM_RETRY_BASE_DELAY_MS;
+		delete process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+		delete process.env.CIRCUIT_BREAKER_RESET_SECONDS;
+		delete process.env.BREWERY_API_CLIENT;
+		delete process.env.BREWERY_SEED_FILE;
+		delete process.env.ORDER_SERVICE_URL;
+		delete process.env.ORDER_SERVICE_CLIENT;
+		delete process.env.IDEMPOTENCY_TTL_SECONDS;
+		delete process.env.LOW_STOCK_THRESHOLD;
+		delete process.env.CART_BATCH_MAX_OPERATIONS;
+		delete process.env.MAX_NAMED_CARTS;
+		delete process.env.SHARE_LINK_TTL_SECONDS;
+		delete process.env.EVENT_PUBLISHER;
+		delete process.env.EVENT_LOG_FILE;
+		delete process.env.ABANDONED_CART_THRESHOLDS_SECONDS;
+		delete process.env.ABANDONED_CART_SWEEP_INTERVAL_SECONDS;
+		delete process.env.EVENT_WEBHOOK_URL;
+		delete process.env.OUTBOX_RELAY_INTERVAL_SECONDS;
+		delete process.env.OUTBOX_RETRY_BASE_SECONDS;
+		delete process.env.OUTBOX_RETRY_MAX_SECONDS;
+		delete process.env.WEBHOOK_TIMEOUT_MS;
+		delete process.env.WEBHOOK_MAX_ATTEMPTS;
+		delete process.env.WEBHOOK_RETRY_BASE_SECONDS;
+		delete process.env.WEBHOOK_RETRY_MAX_SECONDS;
+		delete process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS;
+		delete process.env.WEBHOOK_SECRET_GRACE_SECONDS;
+		delete process.env.BASE_CURRENCY;
+		delete process.env.EXCHANGE_RATES_FILE;
+		delete process.env.BREWERY_SERVICE_TOKEN;
 
 		// Load config with no env vars
 		const { config } = require("../../config/config");
@@ -35,6 +80,53 @@ describe("config", () => {
 		expect(config.breweryApiUrl).toBe("http://localhost:5089");
 		expect(config.port).toBe(3009);
 		expect(config.jwtSecret).toBe("");
+		expect(config.guestCartTtlSeconds).toBe(604800);
+		expect(config.defaultProvince).toBe("ON");
+		expect(config.taxRatesFile).toBe("");
+		expect(config.depositScheduleFile).toBe("");
+		expect(config.legalDrinkingAge).toBe(19);
+		expect(config.purchaseLimitsFile).toBe("");
+		expect(config.maxOrderVolumeLitres).toBe(0);
+		expect(config.reservationTtlSeconds).toBe(900);
+		expect(config.reservationSweepIntervalSeconds).toBe(60);
+		expect(config.inventoryConcurrency).toBe(5);
+		expect(config.inventoryBatchLookups).toBe(false);
+		expect(config.inventoryCacheTtlSeconds).toBe(30);
+		expect(config.inventoryCacheStaleSeconds).toBe(60);
+		expect(config.inventoryCacheMaxEntries).toBe(1000);
+		expect(config.upstreamTimeoutMs).toBe(5000);
+		expect(config.upstreamRetries).toBe(2);
+		expect(config.upstreamRetryBaseDelayMs).toBe(100);
+		expect(config.circuitBreakerFailureThreshold).toBe(5);
+		expect(config.circuitBreakerResetSeconds).toBe(30);
+		expect(config.breweryApiClient).toBe("http");
+		expect(config.brewerySeedFile).toBe("");
+		expect(config.orderServiceUrl).toBe("http://localhost:5091");
+		expect(config.orderServiceClient).toBe("http");
+		expect(config.idempotencyTtlSeconds).toBe(86400);
+		expect(config.lowStockThreshold).toBe(5);
+		expect(config.cartBatchMaxOperations).toBe(50);
+		expect(config.maxNamedCarts).toBe(10);
+		expect(config.shareLinkTtlSeconds).toBe(604800);
+		expect(config.eventPublisher).toBe("memory");
+		expect(config.eventLogFile).toBe("events.jsonl");
+		expect(config.abandonedCartThresholdsSeconds).toEqual([
+			3600, 86400, 259200,
+		]);
+		expect(config.abandonedCartSweepIntervalSeconds).toBe(300);
+		expect(config.eventWebhookUrl).toBe("");
+		expect(config.outboxRelayIntervalSeconds).toBe(5);
+		expect(config.outboxRetryBaseSeconds).toBe(5);
+		expect(config.outboxRetryMaxSeconds).toBe(300);
+		expect(config.webhookTimeoutMs).toBe(5000);
+		expect(config.webhookMaxAttempts).toBe(8);
+		expect(config.webhookRetryBaseSeconds).toBe(10);
+		expect(config.webhookRetryMaxSeconds).toBe(3600);
+		expect(config.webhookDeliveryIntervalSeconds).toBe(5);
+		expect(config.webhookSecretGraceSeconds).toBe(86400);
+		expect(config.baseCurrency).toBe("CAD");
+		expect(config.exchangeRatesFile).toBe("");
+		expect(config.breweryServiceToken).toBe("");
 
 		// Restore the original env
 		process.env = originalEnv;
@@ -49,6 +141,39 @@ describe("config", () => {
 		process.env.BREWERY_API_URL = "https://api.brewery.com";
 		process.env.PORT = "4000";
 		process.env.JWT_SECRET = "custom-secret";
+		process.env.GUEST_CART_TTL_SECONDS = "3600";
+		process.env.DEFAULT_PROVINCE = "BC";
+		process.env.LEGAL_DRINKING_AGE = "18";
+		process.env.MAX_ORDER_VOLUME_LITRES = "22.5";
+		process.env.RESERVATION_TTL_SECONDS = "300";
+		process.env.INVENTORY_BATCH_LOOKUPS = "true";
+		process.env.INVENTORY_CACHE_MAX_ENTRIES = "50";
+		process.env.UPSTREAM_TIMEOUT_MS = "1500";
+		process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = "3";
+		process.env.BREWERY_API_CLIENT = "memory";
+		process.env.ORDER_SERVICE_URL = "https://orders.brewery.com";
+		process.env.IDEMPOTENCY_TTL_SECONDS = "600";
+		process.env.LOW_STOCK_THRESHOLD = "10";
+		process.env.CART_BATCH_MAX_OPERATIONS = "20";
+		process.env.MAX_NAMED_CARTS = "3";
+		process.env.SHARE_LINK_TTL_SECONDS = "3600";
+		process.env.EVENT_PUBLISHER = "file";
+		process.env.EVENT_LOG_FILE = "/tmp/cart-events.jsonl";
+		process.env.ABANDONED_CART_THRESHOLDS_SECONDS = "60,120";
+		process.env.ABANDONED_CART_SWEEP_INTERVAL_SECONDS = "30";
+		process.env.EVENT_WEBHOOK_URL = "http://localhost:4000/events";
+		process.env.OUTBOX_RELAY_INTERVAL_SECONDS = "1";
+		process.env.OUTBOX_RETRY_BASE_SECONDS = "2";
+		process.env.OUTBOX_RETRY_MAX_SECONDS = "60";
+		process.env.WEBHOOK_TIMEOUT_MS = "1000";
+		process.env.WEBHOOK_MAX_ATTEMPTS = "3";
+		process.env.WEBHOOK_RETRY_BASE_SECONDS = "1";
+		process.env.WEBHOOK_RETRY_MAX_SECONDS = "60";
+		process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS = "1";
+		process.env.WEBHOOK_SECRET_GRACE_SECONDS = "600";
+		process.env.BASE_CURRENCY = "usd";
+		process.env.EXCHANGE_RATES_FILE = "/etc/cart/exchange-rates.json";
+		process.env.BREWERY_SERVICE_TOKEN = "service-token";
 
 		// Load config with env vars
 		const { config } = require("../../config/config");
@@ -58,6 +183,39 @@ describe("config", () => {
 		expect(config.breweryApiUrl).toBe("https://api.brewery.com");
 		expect(config.port).toBe(4000);
 		expect(config.jwtSecret).toBe("custom-secret");
+		expect(config.guestCartTtlSeconds).toBe(3600);
+		expect(config.defaultProvince).toBe("BC");
+		expect(config.legalDrinkingAge).toBe(18);
+		expect(config.maxOrderVolumeLitres).toBe(22.5);
+		expect(config.reservationTtlSeconds).toBe(300);
+		expect(config.inventoryBatchLookups).toBe(true);
+		expect(config.inventoryCacheMaxEntries).toBe(50);
+		expect(config.upstreamTimeoutMs).toBe(1500);
+		expect(config.circuitBreakerFailureThreshold).toBe(3);
+		expect(config.breweryApiClient).toBe("memory");
+		expect(config.orderServiceUrl).toBe("https://orders.brewery.com");
+		expect(config.idempotencyTtlSeconds).toBe(600);
+		expect(config.lowStockThreshold).toBe(10);
+		expect(config.cartBatchMaxOperations).toBe(20);
+		expect(config.maxNamedCarts).toBe(3);
+		expect(config.shareLinkTtlSeconds).toBe(3600);
+		expect(config.eventPublisher).toBe("file");
+		expect(config.eventLogFile).toBe("/tmp/cart-events.jsonl");
+		expect(config.abandonedCartThresholdsSeconds).toEqual([60, 120]);
+		expect(config.abandonedCartSweepIntervalSeconds).toBe(30);
+		expect(config.eventWebhookUrl).toBe("http://localhost:4000/events");
+		expect(config.outboxRelayIntervalSeconds).toBe(1);
+		expect(config.outboxRetryBaseSeconds).toBe(2);
+		expect(config.outboxRetryMaxSeconds).toBe(60);
+		expect(config.webhookTimeoutMs).toBe(1000);
+		expect(config.webhookMaxAttempts).toBe(3);
+		expect(config.webhookRetryBaseSeconds).toBe(1);
+		expect(config.webhookRetryMaxSeconds).toBe(60);
+		expect(config.webhookDeliveryIntervalSeconds).toBe(1);
+		expect(config.webhookSecretGraceSeconds).toBe(600);
+		expect(config.baseCurrency).toBe("USD");
+		expect(config.exchangeRatesFile).toBe("/etc/cart/exchange-rates.json");
+		expect(config.breweryServiceToken).toBe("service-token");
 
 		// Restore the original env
 		process.env = originalEnv;
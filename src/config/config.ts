@@ -10,12 +10,117 @@ const ENVIRONMENT = process.env.NODE_ENV || "development";
 const BREWERY_API_URL = process.env.BREWERY_API_URL ?? "http://localhost:5089";
 const PORT = process.env.PORT ?? "3009";
 const JWT_SECRET = process.env.JWT_SECRET ?? "";
+const DEFAULT_PROVINCE = process.env.DEFAULT_PROVINCE ?? "ON";
+const TAX_RATES_FILE = process.env.TAX_RATES_FILE ?? "";
+const DEPOSIT_SCHEDULE_FILE = process.env.DEPOSIT_SCHEDULE_FILE ?? "";
+const LEGAL_DRINKING_AGE = process.env.LEGAL_DRINKING_AGE ?? "19";
+const PURCHASE_LIMITS_FILE = process.env.PURCHASE_LIMITS_FILE ?? "";
+const MAX_ORDER_VOLUME_LITRES = process.env.MAX_ORDER_VOLUME_LITRES ?? "0";
+const RESERVATION_TTL_SECONDS = process.env.RESERVATION_TTL_SECONDS ?? "900";
+const RESERVATION_SWEEP_INTERVAL_SECONDS =
+	process.env.RESERVATION_SWEEP_INTERVAL_SECONDS ?? "60";
+const INVENTORY_CONCURRENCY = process.env.INVENTORY_CONCURRENCY ?? "5";
+const INVENTORY_BATCH_LOOKUPS = process.env.INVENTORY_BATCH_LOOKUPS ?? "false";
+const INVENTORY_CACHE_TTL_SECONDS =
+	process.env.INVENTORY_CACHE_TTL_SECONDS ?? "30";
+const INVENTORY_CACHE_STALE_SECONDS =
+	process.env.INVENTORY_CACHE_STALE_SECONDS ?? "60";
+const INVENTORY_CACHE_MAX_ENTRIES =
+	process.env.INVENTORY_CACHE_MAX_ENTRIES ?? "1000";
+const UPSTREAM_TIMEOUT_MS = process.env.UPSTREAM_TIMEOUT_MS ?? "5000";
+const UPSTREAM_RETRIES = process.env.UPSTREAM_RETRIES ?? "2";
+const UPSTREAM_RETRY_BASE_DELAY_MS =
+	process.env.UPSTREAM_RETRY_BASE_DELAY_MS ?? "100";
+const CIRCUIT_BREAKER_FAILURE_THRESHOLD =
+	process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD ?? "5";
+const CIRCUIT_BREAKER_RESET_SECONDS =
+	process.env.CIRCUIT_BREAKER_RESET_SECONDS ?? "30";
+const GUEST_CART_TTL_SECONDS = process.env.GUEST_CART_TTL_SECONDS ?? "604800";
+const BREWERY_API_CLIENT = process.env.BREWERY_API_CLIENT ?? "http";
+const BREWERY_SEED_FILE = process.env.BREWERY_SEED_FILE ?? "";
+const ORDER_SERVICE_URL =
+	process.env.ORDER_SERVICE_URL ?? "http://localhost:5091";
+const ORDER_SERVICE_CLIENT = process.env.ORDER_SERVICE_CLIENT ?? "http";
+const IDEMPOTENCY_TTL_SECONDS = process.env.IDEMPOTENCY_TTL_SECONDS ?? "86400";
+const LOW_STOCK_THRESHOLD = process.env.LOW_STOCK_THRESHOLD ?? "5";
+const CART_BATCH_MAX_OPERATIONS = process.env.CART_BATCH_MAX_OPERATIONS ?? "50";
+const MAX_NAMED_CARTS = process.env.MAX_NAMED_CARTS ?? "10";
+const SHARE_LINK_TTL_SECONDS = process.env.SHARE_LINK_TTL_SECONDS ?? "604800";
+const EVENT_PUBLISHER = process.env.EVENT_PUBLISHER ?? "memory";
+const EVENT_LOG_FILE = process.env.EVENT_LOG_FILE ?? "events.jsonl";
+const ABANDONED_CART_THRESHOLDS_SECONDS =
+	process.env.ABANDONED_CART_THRESHOLDS_SECONDS ?? "3600,86400,259200";
+const ABANDONED_CART_SWEEP_INTERVAL_SECONDS =
+	process.env.ABANDONED_CART_SWEEP_INTERVAL_SECONDS ?? "300";
+const EVENT_WEBHOOK_URL = process.env.EVENT_WEBHOOK_URL ?? "";
+const OUTBOX_RELAY_INTERVAL_SECONDS =
+	process.env.OUTBOX_RELAY_INTERVAL_SECONDS ?? "5";
+const OUTBOX_RETRY_BASE_SECONDS = process.env.OUTBOX_RETRY_BASE_SECONDS ?? "5";
+const OUTBOX_RETRY_MAX_SECONDS = process.env.OUTBOX_RETRY_MAX_SECONDS ?? "300";
+const WEBHOOK_TIMEOUT_MS = process.env.WEBHOOK_TIMEOUT_MS ?? "5000";
+const WEBHOOK_MAX_ATTEMPTS = process.env.WEBHOOK_MAX_ATTEMPTS ?? "8";
+const WEBHOOK_RETRY_BASE_SECONDS =
+	process.env.WEBHOOK_RETRY_BASE_SECONDS ?? "10";
+const WEBHOOK_RETRY_MAX_SECONDS =
+	process.env.WEBHOOK_RETRY_MAX_SECONDS ?? "3600";
+const WEBHOOK_DELIVERY_INTERVAL_SECONDS =
+	process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS ?? "5";
+const WEBHOOK_SECRET_GRACE_SECONDS =
+	process.env.WEBHOOK_SECRET_GRACE_SECONDS ?? "86400";
+const BASE_CURRENCY = process.env.BASE_CURRENCY ?? "CAD";
+const EXCHANGE_RATES_FILE = process.env.EXCHANGE_RATES_FILE ?? "";
+const BREWERY_SERVICE_TOKEN = process.env.BREWERY_SERVICE_TOKEN ?? "";
 
 export interface Config {
 	environment: string;
 	breweryApiUrl: string;
 	port: number;
 	jwtSecret: string;
+	guestCartTtlSeconds: number;
+	defaultProvince: string;
+	taxRatesFile: string;
+	depositScheduleFile: string;
+	legalDrinkingAge: number;
+	purchaseLimitsFile: string;
+	maxOrderVolumeLitres: number;
+	reservationTtlSeconds: number;
+	reservationSweepIntervalSeconds: number;
+	inventoryConcurrency: number;
+	inventoryBatchLookups: boolean;
+	inventoryCacheTtlSeconds: number;
+	inventoryCacheStaleSeconds: number;
+	inventoryCacheMaxEntries: number;
+	upstreamTimeoutMs: number;
+	upstreamRetries: number;
+	upstreamRetryBaseDelayMs: number;
+	circuitBreakerFailureThreshold: number;
+	circuitBreakerResetSeconds: number;
+	breweryApiClient: string;
+	brewerySeedFile: string;
+	orderServiceUrl: string;
+	orderServiceClient: string;
+	idempotencyTtlSeconds: number;
+	lowStockThreshold: number;
+	cartBatchMaxOperations: number;
+	maxNamedCarts: number;
+	shareLinkTtlSeconds: number;
+	eventPublisher: string;
+	eventLogFile: string;
+	abandonedCartThresholdsSeconds: number[];
+	abandonedCartSweepIntervalSeconds: number;
+	eventWebhookUrl: string;
+	outboxRelayIntervalSeconds: number;
+	outboxRetryBaseSeconds: number;
+	outboxRetryMaxSeconds: number;
+	webhookTimeoutMs: number;
+	webhookMaxAttempts: number;
+	webhookRetryBaseSeconds: number;
+	webhookRetryMaxSeconds: number;
+	webhookDeliveryIntervalSeconds: number;
+	webhookSecretGraceSeconds: number;
+	baseCurrency: string;
+	exchangeRatesFile: string;
+	breweryServiceToken: string;
 }
 
 export const config: Config = {
@@ -23,4 +128,63 @@ export const config: Config = {
 	breweryApiUrl: BREWERY_API_URL,
 	port: parseInt(PORT, 10),
 	jwtSecret: JWT_SECRET,
+	guestCartTtlSeconds: parseInt(GUEST_CART_TTL_SECONDS, 10),
+	defaultProvince: DEFAULT_PROVINCE,
+	taxRatesFile: TAX_RATES_FILE,
+	depositScheduleFile: DEPOSIT_SCHEDULE_FILE,
+	legalDrinkingAge: parseInt(LEGAL_DRINKING_AGE, 10),
+	purchaseLimitsFile: PURCHASE_LIMITS_FILE,
+	maxOrderVolumeLitres: parseFloat(MAX_ORDER_VOLUME_LITRES),
+	reservationTtlSeconds: parseInt(RESERVATION_TTL_SECONDS, 10),
+	reservationSweepIntervalSeconds: parseInt(
+		RESERVATION_SWEEP_INTERVAL_SECONDS,
+		10
+	),
+	inventoryConcurrency: parseInt(INVENTORY_CONCURRENCY, 10),
+	inventoryBatchLookups: INVENTORY_BATCH_LOOKUPS === "true",
+	inventoryCacheTtlSeconds: parseInt(INVENTORY_CACHE_TTL_SECONDS, 10),
+	inventoryCacheStaleSeconds: parseInt(INVENTORY_CACHE_STALE_SECONDS, 10),
+	inventoryCacheMaxEntries: parseInt(INVENTORY_CACHE_MAX_ENTRIES, 10),
+	upstreamTimeoutMs: parseInt(UPSTREAM_TIMEOUT_MS, 10),
+	upstreamRetries: parseInt(UPSTREAM_RETRIES, 10),
+	upstreamRetryBaseDelayMs: parseInt(UPSTREAM_RETRY_BASE_DELAY_MS, 10),
+	circuitBreakerFailureThreshold: parseInt(
+		CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+		10
+	),
+	circuitBreakerResetSeconds: parseInt(CIRCUIT_BREAKER_RESET_SECONDS, 10),
+	breweryApiClient: BREWERY_API_CLIENT,
+	brewerySeedFile: BREWERY_SEED_FILE,
+	orderServiceUrl: ORDER_SERVICE_URL,
+	orderServiceClient: ORDER_SERVICE_CLIENT,
+	idempotencyTtlSeconds: parseInt(IDEMPOTENCY_TTL_SECONDS, 10),
+	lowStockThreshold: parseInt(LOW_STOCK_THRESHOLD, 10),
+	cartBatchMaxOperations: parseInt(CART_BATCH_MAX_OPERATIONS, 10),
+	maxNamedCarts: parseInt(MAX_NAMED_CARTS, 10),
+	shareLinkTtlSeconds: parseInt(SHARE_LINK_TTL_SECONDS, 10),
+	eventPublisher: EVENT_PUBLISHER,
+	eventLogFile: EVENT_LOG_FILE,
+	abandonedCartThresholdsSeconds: ABANDONED_CART_THRESHOLDS_SECONDS.split(
+		","
+	).map((value) => parseInt(value, 10)),
+	abandonedCartSweepIntervalSeconds: parseInt(
+		ABANDONED_CART_SWEEP_INTERVAL_SECONDS,
+		10
+	),
+	eventWebhookUrl: EVENT_WEBHOOK_URL,
+	outboxRelayIntervalSeconds: parseInt(OUTBOX_RELAY_INTERVAL_SECONDS, 10),
+	outboxRetryBaseSeconds: parseInt(OUTBOX_RETRY_BASE_SECONDS, 10),
+	outboxRetryMaxSeconds: parseInt(OUTBOX_RETRY_MAX_SECONDS, 10),
+	webhookTimeoutMs: parseInt(WEBHOOK_TIMEOUT_MS, 10),
+	webhookMaxAttempts: parseInt(WEBHOOK_MAX_ATTEMPTS, 10),
+	webhookRetryBaseSeconds: parseInt(WEBHOOK_RETRY_BASE_SECONDS, 10),
+	webhookRetryMaxSeconds: parseInt(WEBHOOK_RETRY_MAX_SECONDS, 10),
+	webhookDeliveryIntervalSeconds: parseInt(
+		WEBHOOK_DELIVERY_INTERVAL_SECONDS,
+		10
+	),
+	webhookSecretGraceSeconds: parseInt(WEBHOOK_SECRET_GRACE_SECONDS, 10),
+	baseCurrency: BASE_CURRENCY.toUpperCase(),
+	exchangeRatesFile: EXCHANGE_RATES_FILE,
+	breweryServiceToken: BREWERY_SERVICE_TOKEN,
 };
@@ -0,0 +1,79 @@
+import { AdminController } from "../adminController";
+import { Response } from "express";
+import { AuthRequest } from "../../middleware/auth";
+import { inventoryCache } from "../../services/inventoryCache";
+
+describe("AdminController", () => {
+	let adminController: AdminController;
+	let mockRequest: Partial<AuthRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	// Set up fresh controller, mocks and cache before each test
+	beforeEach(() => {
+		adminController = new AdminController();
+		mockRequest = {
+			params: {},
+			user: { id: 1, email: "admin@example.com", role: "admin" },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+		};
+		mockNext = jest.fn();
+		inventoryCache.clear();
+		inventoryCache.set(1, { id: 1, price: 5, stockQuantity: 10 });
+		inventoryCache.set(2, { id: 2, price: 6, stockQuantity: 10 });
+	});
+
+	// Test invalidating one entry
+	it("should invalidate a single inventory entry", async () => {
+		mockRequest.params = { inventory_id: "1" };
+
+		await adminController.invalidateInventoryCache(
+			mockRequest as AuthRequest,
+			mockResponse as Response,
+			mockNext
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(mockResponse.json).toHaveBeenCalledWith({
+			message: "Inventory cache entry invalidated",
+			inventory_id: 1,
+		});
+		expect(inventoryCache.get(1)).toBeUndefined();
+		expect(inventoryCache.get(2)).toBeDefined();
+	});
+
+	// Test invalidating an entry that isn't cached
+	it("should report items that were not cached", async () => {
+		mockRequest.params = { inventory_id: "9" };
+
+		await adminController.invalidateInventoryCache(
+			mockRequest as AuthRequest,
+			mockResponse as Response,
+			mockNext
+		);
+
+		expect(mockResponse.json).toHaveBeenCalledWith({
+			message: "Inventory item was not cached",
+			inventory_id: 9,
+		});
+	});
+
+	// Test clearing everything
+	it("should clear the whole inventory cache", async () => {
+		await adminController.clearInventoryCache(
+			mockRequest as AuthRequest,
+			mockResponse as Response,
+			mockNext
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(mockResponse.json).toHaveBeenCalledWith({
+			message: "Inventory cache cleared",
+			cleared: 2,
+		});
+		expect(inventoryCache.size).toBe(0);
+	});
+});
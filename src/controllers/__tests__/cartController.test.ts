@@ -3,6 +3,21 @@ import { Request, Response } from "express";
 import { AuthRequest } from "../../middleware/auth";
 import axios from "axios";
 import { validationResult, ValidationError } from "express-validator";
+import { promoStore } from "../../services/promotions/promoStore";
+import { reservationStore } from "../../services/reservations/reservationStore";
+import { inventoryCache } from "../../services/inventoryCache";
+import { cartActivityStore } from "../../services/abandonment/cartActivityStore";
+import { outboxStore } from "../../services/outbox/outboxStore";
+import { priceSnapshotStore } from "../../services/priceSnapshots";
+import { config } from "../../config/config";
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { InMemoryOrderServiceClient } from "../../ports/orders/inMemoryOrderServiceClient";
+import { CheckoutService } from "../../services/checkout/checkoutService";
+import { InventoryLoader } from "../../services/inventoryLoader";
+import {
+	CircuitOpenError,
+	upstreamClient,
+} from "../../ports/http/upstreamClient";
 
 // Mock axios for API calls
 jest.mock("axios", () => ({
@@ -38,14 +53,23 @@ describe("CartController", () => {
 		mockRequest = {
 			body: {},
 			params: {},
+			query: {},
 			headers: { authorization: "Bearer mock-token" },
-			user: { id: 1, email: "test@example.com" },
+			user: { id: 1, email: "test@example.com", ageVerified: true },
 		};
 		mockResponse = {
 			status: jest.fn().mockReturnThis(),
 			json: jest.fn(),
+			set: jest.fn(),
 		};
 		mockNext = jest.fn();
+		config.upstreamRetries = 0;
+		upstreamClient.resetCircuit();
+		promoStore.remove(1);
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+		inventoryCache.clear();
+		priceSnapshotStore.releaseAll(1);
 
 		// Clear mocks to keep tests isolated
 		jest.clearAllMocks();
@@ -63,9 +87,12 @@ describe("CartController", () => {
 				array: () => [],
 			});
 			// Mock inventory check
-			(axios.get as jest.Mock).mockResolvedValueOnce({
-				data: { stockQuantity: 10 },
-			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 10 },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
 			// Mock cart add response
 			(axios.post as jest.Mock).mockResolvedValue({
 				data: { id: 1, user_id: 1, inventory_id: 1, quantity: 2 },
@@ -86,7 +113,7 @@ describe("CartController", () => {
 			);
 			expect(axios.post).toHaveBeenCalledWith(
 				"http://localhost:5089/api/cart/add",
-				{ user_id: "1", inventory_id: "1", quantity: 2 },
+				{ user_id: 1, inventory_id: 1, quantity: 2 },
 				expect.any(Object)
 			);
 			// Expect the success response
@@ -172,6 +199,265 @@ describe("CartController", () => {
 			});
 		});
 
+		// Test the age gate for unverified users
+		it("should return 403 if an unverified user adds alcohol", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			// Mock a beer with plenty of stock
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { stockQuantity: 10, category: "beer" },
+			});
+
+			mockRequest.user = { id: 1, email: "test@example.com" };
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// Expect the age error and no cart write
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Age verification is required to buy alcohol",
+				code: "AGE_VERIFICATION_REQUIRED",
+			});
+			expect(axios.post).not.toHaveBeenCalled();
+		});
+
+		// Test the age gate for underage users
+		it("should return 403 if an underage user adds alcohol", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { stockQuantity: 10 },
+			});
+
+			// A birthdate claim wins over the age_verified flag
+			const lastYear = new Date().getUTCFullYear() - 1;
+			mockRequest.user = {
+				id: 1,
+				email: "test@example.com",
+				birthdate: `${lastYear}-01-01`,
+				ageVerified: true,
+			};
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "You must be of legal drinking age to buy alcohol",
+				code: "AGE_RESTRICTED",
+			});
+		});
+
+		// Test non-alcoholic items skip the age gate
+		it("should let unverified users add merchandise", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 10, category: "merchandise" },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
+			(axios.post as jest.Mock).mockResolvedValueOnce({
+				data: { id: 2, user_id: 1, inventory_id: 5, quantity: 1 },
+			});
+
+			mockRequest.user = { id: 1, email: "test@example.com" };
+			mockRequest.body = { user_id: "1", inventory_id: "5", quantity: 1 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+		});
+
+		// Test the per-order SKU limit counts what's already in the cart
+		it("should return 422 if the per-order limit is exceeded", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			// Mock a limited release and a cart already holding one
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 50, maxPerOrder: 2 },
+				})
+				.mockResolvedValueOnce({
+					data: [{ id: 4, user_id: 1, inventory_id: 1, quantity: 1 }],
+				});
+
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// Expect the structured violation
+			expect(mockResponse.status).toHaveBeenCalledWith(422);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Purchase limit exceeded",
+				violations: [
+					{
+						code: "SKU_LIMIT_EXCEEDED",
+						inventory_id: 1,
+						limit: 2,
+						requested: 3,
+						message: "Limit of 2 per order for this item",
+					},
+				],
+			});
+			expect(axios.post).not.toHaveBeenCalled();
+		});
+
+		// Test the per-customer limit counts past adds
+		it("should return 422 once the per-customer limit is used up", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 50, maxPerCustomer: 2 },
+				})
+				.mockResolvedValueOnce({ data: [] })
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 50, maxPerCustomer: 2 },
+				})
+				.mockResolvedValueOnce({
+					data: [
+						{ id: 9, user_id: 1, inventory_id: 77, quantity: 2 },
+					],
+				});
+			(axios.post as jest.Mock).mockResolvedValueOnce({
+				data: { id: 9, user_id: 1, inventory_id: 77, quantity: 2 },
+			});
+
+			mockRequest.body = {
+				user_id: "1",
+				inventory_id: "77",
+				quantity: 2,
+			};
+
+			// The first add uses up the allowance
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+
+			mockRequest.body = {
+				user_id: "1",
+				inventory_id: "77",
+				quantity: 1,
+			};
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenLastCalledWith(422);
+			expect(mockResponse.json).toHaveBeenLastCalledWith({
+				message: "Purchase limit exceeded",
+				violations: [
+					{
+						code: "CUSTOMER_LIMIT_EXCEEDED",
+						inventory_id: 77,
+						limit: 2,
+						purchased: 2,
+						requested: 1,
+						message: "Limit of 2 per customer for this item",
+					},
+				],
+			});
+		});
+
+		// Test the add places a hold on the stock
+		it("should hold the added stock for the user", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 10 },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
+			(axios.post as jest.Mock).mockResolvedValueOnce({
+				data: { id: 1, user_id: 1, inventory_id: 1, quantity: 2 },
+			});
+
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(reservationStore.get(1, 1)?.quantity).toBe(2);
+			expect(reservationStore.availableStock(1, 10, 2)).toBe(8);
+		});
+
+		// Test another customer's hold counts against stock
+		it("should return 400 if other customers hold the stock", async () => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			// The last case is held by user 2
+			reservationStore.hold(2, 1, 1);
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 1 },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
+
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 1 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Insufficient stock",
+			});
+			expect(axios.post).not.toHaveBeenCalled();
+		});
+
 		// Test insufficient stock
 		it("should return 400 if stock is insufficient", async () => {
 			// Mock validation passing
@@ -180,9 +466,12 @@ describe("CartController", () => {
 				array: () => [],
 			});
 			// Mock low stock
-			(axios.get as jest.Mock).mockResolvedValueOnce({
-				data: { stockQuantity: 1 },
-			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 1 },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
 
 			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
 
@@ -238,9 +527,12 @@ describe("CartController", () => {
 				array: () => [],
 			});
 			// Mock inventory check
-			(axios.get as jest.Mock).mockResolvedValueOnce({
-				data: { stockQuantity: 10 },
-			});
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 10 },
+				})
+				// Mock the cart, which has no line for the item yet
+				.mockResolvedValueOnce({ data: [] });
 			// Mock cart add error
 			(axios.post as jest.Mock).mockRejectedValue({
 				response: { status: 500, data: { message: "Server error" } },
@@ -319,6 +611,68 @@ describe("CartController", () => {
 			]);
 		});
 
+		// Test the enriched view
+		it("should join lines with inventory details when view=enriched", async () => {
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ id: 1, user_id: 1, inventory_id: 1, quantity: 2 }],
+				})
+				.mockResolvedValueOnce({
+					data: {
+						id: 1,
+						name: "Hop Harbour IPA",
+						price: 4.5,
+						stockQuantity: 50,
+						abv: 6.5,
+					},
+				});
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { view: "enriched" };
+
+			await cartController.getCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [
+					expect.objectContaining({
+						id: 1,
+						name: "Hop Harbour IPA",
+						abv: 6.5,
+						unit_price: 4.5,
+						stock_status: "in_stock",
+						line_subtotal: 9,
+					}),
+				],
+				item_count: 2,
+				subtotal: 9,
+			});
+		});
+
+		// Test an open circuit breaker
+		it("should return 503 with Retry-After when the circuit is open", async () => {
+			(axios.get as jest.Mock).mockRejectedValueOnce(
+				new CircuitOpenError(12)
+			);
+			mockRequest.params = { user_id: "1" };
+
+			await cartController.getCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.set).toHaveBeenCalledWith("Retry-After", "12");
+			expect(mockResponse.status).toHaveBeenCalledWith(503);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Brewery API is unavailable",
+				error: "Brewery API circuit is open",
+			});
+		});
+
 		// Test req.user undefined
 		it("should return 403 if req.user is undefined", async () => {
 			mockRequest.user = undefined;
@@ -403,6 +757,48 @@ describe("CartController", () => {
 		});
 	});
 
+	describe("getCart with deposits", () => {
+		// Test the cart view listing deposits
+		it("should list deposits when requested", async () => {
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ id: 1, user_id: 1, inventory_id: 1, quantity: 4 }],
+				})
+				.mockResolvedValueOnce({
+					data: {
+						price: 3,
+						containerType: "bottle",
+						containerSizeMl: 341,
+					},
+				});
+
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { include: "deposits" };
+
+			await cartController.getCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [{ id: 1, user_id: 1, inventory_id: 1, quantity: 4 }],
+				deposits: [
+					{
+						inventory_id: 1,
+						container_type: "bottle",
+						container_size_ml: 341,
+						containers: 4,
+						unit_deposit: 0.1,
+						amount: 0.4,
+					},
+				],
+				deposit_total: 0.4,
+			});
+		});
+	});
+
 	describe("updateCart", () => {
 		// Test updating cart successfully
 		it("should update cart successfully", async () => {
@@ -667,9 +1063,10 @@ describe("CartController", () => {
 	describe("removeFromCart", () => {
 		// Test removing from cart successfully
 		it("should remove from cart successfully", async () => {
+			reservationStore.hold(1, 4, 2);
 			// Mock cart item fetch
 			(axios.get as jest.Mock).mockResolvedValueOnce({
-				data: { user_id: 1 },
+				data: { user_id: 1, inventory_id: 4 },
 			});
 			// Mock delete response
 			(axios.delete as jest.Mock).mockResolvedValue({
@@ -698,6 +1095,8 @@ describe("CartController", () => {
 			expect(mockResponse.json).toHaveBeenCalledWith({
 				message: "Item removed",
 			});
+			// The line's hold is released
+			expect(reservationStore.get(1, 4)).toBeUndefined();
 		});
 
 		// Test req.user undefined
@@ -798,6 +1197,8 @@ describe("CartController", () => {
 	describe("clearCart", () => {
 		// Test clearing cart successfully
 		it("should clear cart successfully", async () => {
+			reservationStore.hold(1, 4, 2);
+			reservationStore.hold(1, 5, 1);
 			// Mock delete response
 			(axios.delete as jest.Mock).mockResolvedValue({
 				data: {},
@@ -821,6 +1222,9 @@ describe("CartController", () => {
 			expect(mockResponse.json).toHaveBeenCalledWith({
 				message: "Cart cleared successfully",
 			});
+			// Every hold is released
+			expect(reservationStore.get(1, 4)).toBeUndefined();
+			expect(reservationStore.get(1, 5)).toBeUndefined();
 		});
 
 		// Test req.user undefined
@@ -907,20 +1311,84 @@ describe("CartController", () => {
 		});
 	});
 
-	describe("getCartTotal", () => {
-		// Test getting cart total successfully
-		it("should get cart total successfully", async () => {
-			// Mock cart fetch
-			(axios.get as jest.Mock)
-				.mockResolvedValueOnce({
-					data: [
-						{ inventory_id: 1, quantity: 2 },
-						{ inventory_id: 2, quantity: 1 },
-					],
-				})
-				.mockResolvedValueOnce({ data: { price: 5.99 } }) // First item
-				.mockResolvedValueOnce({ data: { price: 3.99 } }); // Second item
-
+	describe("getHold", () => {
+		// Test reading a line's hold
+		it("should return when the line's hold expires", async () => {
+			const hold = reservationStore.hold(1, 3, 2);
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { id: 5, user_id: 1, inventory_id: 3, quantity: 2 },
+			});
+			mockRequest.params = { id: "5" };
+
+			await cartController.getHold(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(axios.get).toHaveBeenCalledWith(
+				"http://localhost:5089/api/cart/item/5",
+				expect.any(Object)
+			);
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				id: 5,
+				inventory_id: 3,
+				quantity: 2,
+				expires_at: new Date(hold.expiresAt).toISOString(),
+			});
+		});
+
+		// Test a line without a hold
+		it("should return 404 if the hold has been released", async () => {
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { id: 5, user_id: 1, inventory_id: 3, quantity: 2 },
+			});
+			mockRequest.params = { id: "5" };
+
+			await cartController.getHold(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "No active hold",
+			});
+		});
+
+		// Test another user's line
+		it("should return 403 if user is unauthorized", async () => {
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { id: 5, user_id: 2, inventory_id: 3, quantity: 2 },
+			});
+			mockRequest.params = { id: "5" };
+
+			await cartController.getHold(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+	});
+
+	describe("getCartTotal", () => {
+		// Test getting cart total successfully
+		it("should get cart total successfully", async () => {
+			// Mock cart fetch
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [
+						{ inventory_id: 1, quantity: 2 },
+						{ inventory_id: 2, quantity: 1 },
+					],
+				})
+				.mockResolvedValueOnce({ data: { price: 5.99 } }) // First item
+				.mockResolvedValueOnce({ data: { price: 3.99 } }); // Second item
+
 			mockRequest.params = { user_id: "1" };
 
 			await cartController.getCartTotal(
@@ -944,7 +1412,142 @@ describe("CartController", () => {
 			);
 			// Expect the total (2 * 5.99 + 1 * 3.99 = 15.97)
 			expect(mockResponse.status).toHaveBeenCalledWith(200);
-			expect(mockResponse.json).toHaveBeenCalledWith({ total: 15.97 });
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				currency: "CAD",
+				subtotal: 15.97,
+				discounts: [],
+				province: "ON",
+				taxes: [{ name: "HST", rate: 13, amount: 2.08 }],
+				tax_total: 2.08,
+				deposits: [],
+				deposit_total: 0,
+				total: 18.05,
+			});
+		});
+
+		// Test taxes for a requested province
+		it("should apply the destination province's tax rules", async () => {
+			// Mock a beer line and a merchandise line
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [
+						{ inventory_id: 1, quantity: 2 },
+						{ inventory_id: 2, quantity: 1 },
+					],
+				})
+				.mockResolvedValueOnce({ data: { price: 10 } })
+				.mockResolvedValueOnce({
+					data: { price: 30, category: "Merchandise" },
+				});
+
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { province: "bc" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// GST on everything, PST on merch, liquor PST on beer
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				currency: "CAD",
+				subtotal: 50,
+				discounts: [],
+				province: "BC",
+				taxes: [
+					{ name: "GST", rate: 5, amount: 2.5 },
+					{ name: "PST", rate: 7, amount: 2.1 },
+					{ name: "PST (liquor)", rate: 10, amount: 2 },
+				],
+				tax_total: 6.6,
+				deposits: [],
+				deposit_total: 0,
+				total: 56.6,
+			});
+		});
+
+		// Test container deposits as separate lines
+		it("should add container deposits to the total", async () => {
+			// Mock a 6-pack of tallboys and a growler
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [
+						{ inventory_id: 1, quantity: 2 },
+						{ inventory_id: 2, quantity: 1 },
+					],
+				})
+				.mockResolvedValueOnce({
+					data: {
+						price: 10,
+						containerType: "Can",
+						containerSizeMl: 473,
+						unitsPerPack: 6,
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						price: 20,
+						containerType: "bottle",
+						containerSizeMl: 1890,
+					},
+				});
+
+			mockRequest.params = { user_id: "1" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// Deposits are added after tax and not taxed themselves
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					subtotal: 40,
+					tax_total: 5.2,
+					deposits: [
+						{
+							inventory_id: 1,
+							container_type: "can",
+							container_size_ml: 473,
+							containers: 12,
+							unit_deposit: 0.1,
+							amount: 1.2,
+						},
+						{
+							inventory_id: 2,
+							container_type: "bottle",
+							container_size_ml: 1890,
+							containers: 1,
+							unit_deposit: 0.2,
+							amount: 0.2,
+						},
+					],
+					deposit_total: 1.4,
+					total: 46.6,
+				})
+			);
+		});
+
+		// Test an unknown province
+		it("should return 400 for an unsupported province", async () => {
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { province: "XX" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Unsupported province: XX",
+				code: "UNSUPPORTED_PROVINCE",
+			});
+			expect(axios.get).not.toHaveBeenCalled();
 		});
 
 		// Test req.user undefined
@@ -1008,12 +1611,16 @@ describe("CartController", () => {
 		});
 
 		// Test API error on inventory fetch
-		it("should handle API error on inventory fetch", async () => {
-			// Mock cart fetch
+		it("should report a failed inventory fetch per line", async () => {
+			// Mock cart fetch, one good line and one missing item
 			(axios.get as jest.Mock)
 				.mockResolvedValueOnce({
-					data: [{ inventory_id: 1, quantity: 2 }],
+					data: [
+						{ inventory_id: 1, quantity: 2 },
+						{ inventory_id: 2, quantity: 1 },
+					],
 				})
+				.mockResolvedValueOnce({ data: { price: 5 } })
 				.mockRejectedValueOnce({
 					response: {
 						status: 404,
@@ -1029,12 +1636,46 @@ describe("CartController", () => {
 				mockNext
 			);
 
-			// Expect the error response
-			expect(mockResponse.status).toHaveBeenCalledWith(404);
-			expect(mockResponse.json).toHaveBeenCalledWith({
-				message: "Inventory not found",
-				error: undefined,
-			});
+			// Expect the good line totalled and the bad one reported
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					subtotal: 10,
+					line_errors: [
+						{
+							inventory_id: 2,
+							status: 404,
+							message: "Inventory not found",
+						},
+					],
+				})
+			);
+		});
+
+		// Test duplicate lines share one lookup
+		it("should fetch each inventory item once", async () => {
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [
+						{ inventory_id: 1, quantity: 2 },
+						{ inventory_id: 1, quantity: 1 },
+					],
+				})
+				.mockResolvedValueOnce({ data: { price: 4 } });
+
+			mockRequest.params = { user_id: "1" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// One cart fetch and one inventory fetch
+			expect(axios.get).toHaveBeenCalledTimes(2);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({ subtotal: 12 })
+			);
 		});
 
 		// Test error without response
@@ -1060,4 +1701,788 @@ describe("CartController", () => {
 			});
 		});
 	});
+
+	describe("applyPromoCode", () => {
+		beforeEach(() => {
+			// Mock validation passing
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			mockRequest.params = { user_id: "1" };
+		});
+
+		// Test applying an eligible code
+		it("should apply an eligible promo code", async () => {
+			// Mock cart fetch and inventory for one IPA line
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ inventory_id: 1, quantity: 2 }],
+				})
+				.mockResolvedValueOnce({
+					data: { price: 10, style: "West Coast IPA" },
+				});
+			mockRequest.body = { code: "ipa10" };
+
+			await cartController.applyPromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// Expect the discounted totals
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				currency: "CAD",
+				subtotal: 20,
+				discounts: [
+					{
+						code: "IPA10",
+						description: "10% off IPAs",
+						inventory_id: 1,
+						amount: 2,
+					},
+				],
+				province: "ON",
+				taxes: [{ name: "HST", rate: 13, amount: 2.34 }],
+				tax_total: 2.34,
+				deposits: [],
+				deposit_total: 0,
+				total: 20.34,
+			});
+			expect(promoStore.getAppliedCode(1)).toBe("IPA10");
+		});
+
+		// Test an unknown code
+		it("should return 404 if the promo code does not exist", async () => {
+			mockRequest.body = { code: "NOPE" };
+
+			await cartController.applyPromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Promo code not found",
+				code: "PROMO_NOT_FOUND",
+			});
+			expect(axios.get).not.toHaveBeenCalled();
+		});
+
+		// Test an ineligible code
+		it("should return 422 if the minimum spend is not met", async () => {
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ inventory_id: 1, quantity: 1 }],
+				})
+				.mockResolvedValueOnce({ data: { price: 10 } });
+			mockRequest.body = { code: "SAVE5" };
+
+			await cartController.applyPromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(422);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Promo code requires a minimum spend of 50",
+				code: "PROMO_MIN_SPEND_NOT_MET",
+			});
+			expect(promoStore.getAppliedCode(1)).toBeUndefined();
+		});
+
+		// Test unauthorized user
+		it("should return 403 if user is unauthorized", async () => {
+			mockRequest.params = { user_id: "2" };
+			mockRequest.body = { code: "IPA10" };
+
+			await cartController.applyPromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+
+		// Test error without response
+		it("should handle error without response", async () => {
+			(axios.get as jest.Mock).mockRejectedValueOnce(
+				new Error("Network error")
+			);
+			mockRequest.body = { code: "IPA10" };
+
+			await cartController.applyPromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(500);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Error applying promo code",
+				error: "Network error",
+			});
+		});
+	});
+
+	describe("removePromoCode", () => {
+		// Test removing an applied code
+		it("should remove an applied promo code", async () => {
+			promoStore.apply(1, "IPA10");
+			mockRequest.params = { user_id: "1" };
+
+			await cartController.removePromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Promo code removed",
+			});
+			expect(promoStore.getAppliedCode(1)).toBeUndefined();
+		});
+
+		// Test nothing applied
+		it("should return 404 if no promo code is applied", async () => {
+			mockRequest.params = { user_id: "1" };
+
+			await cartController.removePromoCode(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+
+	describe("with the in-memory Brewery API", () => {
+		let brewery: InMemoryBreweryApiClient;
+
+		beforeEach(() => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 10, category: "beer" },
+			]);
+			cartController = new CartController(brewery);
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+		});
+
+		// Test a full round trip with no upstream
+		it("should add, total and clear a cart without calling axios", async () => {
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 3 };
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			mockRequest.params = { user_id: "1" };
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			await cartController.clearCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenNthCalledWith(1, 201);
+			expect(mockResponse.json).toHaveBeenNthCalledWith(
+				2,
+				expect.objectContaining({ subtotal: 15 })
+			);
+			expect(await brewery.getCart(1)).toEqual([]);
+			expect(axios.get).not.toHaveBeenCalled();
+			expect(axios.post).not.toHaveBeenCalled();
+		});
+
+		// Test totals in a display currency
+		it("should return display-currency totals alongside the base ones", async () => {
+			await brewery.addCartItem({
+				user_id: 1,
+				inventory_id: 1,
+				quantity: 3,
+			});
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { currency: "usd" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(body.currency).toBe("CAD");
+			expect(body.subtotal).toBe(15);
+			expect(body.display).toEqual(
+				expect.objectContaining({
+					currency: "USD",
+					rate: 0.73,
+					subtotal: 10.95,
+					total: Math.round(body.total * 73) / 100,
+				})
+			);
+		});
+
+		// Test an unsupported display currency
+		it("should return 400 for a currency without a rate", async () => {
+			mockRequest.params = { user_id: "1" };
+			mockRequest.query = { currency: "XYZ" };
+
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Unsupported currency: XYZ",
+				code: "UNSUPPORTED_CURRENCY",
+			});
+		});
+
+		// Test upstream-style errors from the in-memory client
+		it("should report a missing cart item as a 404", async () => {
+			mockRequest.params = { id: "7" };
+
+			await cartController.removeFromCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Cart item not found",
+				error: "Cart item not found",
+			});
+		});
+	});
+
+	describe("checkout", () => {
+		let brewery: InMemoryBreweryApiClient;
+		let orders: InMemoryOrderServiceClient;
+
+		beforeEach(async () => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 10, category: "beer" },
+			]);
+			orders = new InMemoryOrderServiceClient();
+			const loader = new InventoryLoader(brewery);
+			cartController = new CartController(
+				brewery,
+				loader,
+				new CheckoutService(brewery, loader, orders)
+			);
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			mockRequest.params = { user_id: "1" };
+			await brewery.addCartItem({
+				user_id: 1,
+				inventory_id: 1,
+				quantity: 2,
+			});
+		});
+
+		// Test placing an order
+		it("should place the order and return the snapshot", async () => {
+			mockRequest.body = { province: "ab" };
+
+			await cartController.checkout(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					order_id: "ord_1",
+					status: "confirmed",
+					province: "AB",
+					total: 10.5,
+				})
+			);
+			expect(await brewery.getCart(1)).toEqual([]);
+		});
+
+		// Test a stale cart
+		it("should return 409 when the cart fails revalidation", async () => {
+			brewery.setInventory({ id: 1, price: 5, stockQuantity: 1 });
+
+			await cartController.checkout(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(409);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "CART_INVALID" })
+			);
+		});
+
+		// Test an empty cart
+		it("should return 400 for an empty cart", async () => {
+			await brewery.clearCart(1);
+
+			await cartController.checkout(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				code: "CART_EMPTY",
+				message: "Cart is empty",
+			});
+		});
+
+		// Test an unsupported province
+		it("should return 400 for an unsupported province", async () => {
+			mockRequest.body = { province: "XX" };
+
+			await cartController.checkout(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Unsupported province: XX",
+				code: "UNSUPPORTED_PROVINCE",
+			});
+		});
+
+		// Test checking out someone else's cart
+		it("should return 403 for another user's cart", async () => {
+			mockRequest.params = { user_id: "2" };
+
+			await cartController.checkout(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+	});
+
+	describe("price changes", () => {
+		let brewery: InMemoryBreweryApiClient;
+
+		beforeEach(async () => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 10, category: "merchandise" },
+			]);
+			cartController = new CartController(brewery);
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			brewery.setInventory({
+				id: 1,
+				price: 6,
+				stockQuantity: 10,
+				category: "merchandise",
+			});
+			inventoryCache.clear();
+			mockRequest.params = { user_id: "1" };
+			mockRequest.body = {};
+		});
+
+		// Test the total flags the increase
+		it("should list price changes since the item was added", async () => {
+			await cartController.getCartTotal(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.json).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					subtotal: 12,
+					price_changes: [
+						{
+							inventory_id: 1,
+							direction: "increase",
+							old_price: 5,
+							new_price: 6,
+						},
+					],
+				})
+			);
+		});
+
+		// Test acknowledging clears the flag
+		it("should stop flagging a change once acknowledged", async () => {
+			await cartController.acknowledgePriceChanges(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			expect(mockResponse.json).toHaveBeenLastCalledWith({
+				acknowledged: [
+					expect.objectContaining({ inventory_id: 1, new_price: 6 }),
+				],
+			});
+
+			mockRequest.query = { view: "enriched" };
+			await cartController.getCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			const view = (mockResponse.json as jest.Mock).mock.lastCall[0];
+			expect(view.items[0].price_change).toBeUndefined();
+			expect(priceSnapshotStore.get(1, 1)).toBe(6);
+		});
+
+		// Test acknowledging only some items
+		it("should leave items not listed in inventory_ids flagged", async () => {
+			mockRequest.body = { inventory_ids: [2] };
+
+			await cartController.acknowledgePriceChanges(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.json).toHaveBeenLastCalledWith({
+				acknowledged: [],
+			});
+			expect(priceSnapshotStore.get(1, 1)).toBe(5);
+		});
+	});
+
+	describe("validateCart", () => {
+		let brewery: InMemoryBreweryApiClient;
+
+		beforeEach(async () => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 2 },
+			]);
+			cartController = new CartController(brewery);
+			mockRequest.params = { user_id: "1" };
+			await brewery.addCartItem({
+				user_id: 1,
+				inventory_id: 1,
+				quantity: 3,
+			});
+		});
+
+		// Test reporting without changing the cart
+		it("should report issues without fixing them", async () => {
+			mockRequest.query = { autofix: "true" };
+
+			await cartController.validateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({ valid: false, cart_issues: [] })
+			);
+			expect((await brewery.getCart(1))[0].quantity).toBe(3);
+		});
+
+		// Test auto-fix
+		it("should apply fixes on the fix route", async () => {
+			await cartController.fixCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					fixes: [
+						{
+							id: 1,
+							inventory_id: 1,
+							action: "set_quantity",
+							quantity: 2,
+						},
+					],
+				})
+			);
+			expect((await brewery.getCart(1))[0].quantity).toBe(2);
+		});
+
+		// Test another user's cart
+		it("should return 403 for another user's cart", async () => {
+			mockRequest.params = { user_id: "2" };
+
+			await cartController.validateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+	});
+
+	describe("addToCart upserts", () => {
+		let brewery: InMemoryBreweryApiClient;
+
+		beforeEach(async () => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 5 },
+			]);
+			cartController = new CartController(brewery);
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			await brewery.addCartItem({
+				user_id: 1,
+				inventory_id: 1,
+				quantity: 2,
+			});
+		});
+
+		// Test incrementing the existing line
+		it("should increment the existing line instead of adding a duplicate", async () => {
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 2 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(await brewery.getCart(1)).toEqual([
+				{ id: 1, user_id: 1, inventory_id: 1, quantity: 4 },
+			]);
+			expect(reservationStore.get(1, 1)?.quantity).toBe(4);
+		});
+
+		// Test mutations record cart activity
+		it("should record activity on add and forget it on clear", async () => {
+			cartActivityStore.clear(1);
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 1 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			expect(cartActivityStore.get(1)?.lastActivityAt).toEqual(
+				expect.any(Number)
+			);
+
+			mockRequest.params = { user_id: "1" };
+			await cartController.clearCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			expect(cartActivityStore.get(1)).toBeUndefined();
+		});
+
+		// Test mutations add domain events to the outbox
+		it("should add cart events to the outbox", async () => {
+			outboxStore.clear();
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 1 };
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+			mockRequest.params = { user_id: "1" };
+			await cartController.clearCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(outboxStore.list().map((entry) => entry.event)).toEqual([
+				expect.objectContaining({
+					type: "CartItemQuantityChanged",
+					payload: {
+						user_id: 1,
+						item_id: 1,
+						inventory_id: 1,
+						previous_quantity: 2,
+						quantity: 3,
+					},
+				}),
+				expect.objectContaining({
+					type: "CartCleared",
+					payload: { user_id: 1 },
+				}),
+			]);
+			outboxStore.clear();
+		});
+
+		// Test stock is checked against the combined quantity
+		it("should return 400 when the combined quantity exceeds stock", async () => {
+			mockRequest.body = { user_id: "1", inventory_id: "1", quantity: 4 };
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect((await brewery.getCart(1))[0].quantity).toBe(2);
+		});
+
+		// Test replace mode
+		it("should overwrite the quantity in replace mode", async () => {
+			mockRequest.body = {
+				user_id: "1",
+				inventory_id: "1",
+				quantity: 5,
+				mode: "replace",
+			};
+
+			await cartController.addToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect((await brewery.getCart(1))[0].quantity).toBe(5);
+		});
+	});
+
+	describe("batchUpdateCart", () => {
+		let brewery: InMemoryBreweryApiClient;
+
+		beforeEach(() => {
+			brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 5, category: "merchandise" },
+				{ id: 2, price: 3, stockQuantity: 1, category: "merchandise" },
+			]);
+			cartController = new CartController(brewery);
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => true,
+				array: () => [],
+			});
+			mockRequest.params = { user_id: "1" };
+		});
+
+		// Test an all-or-nothing batch
+		it("should apply every operation and report each result", async () => {
+			mockRequest.body = {
+				operations: [
+					{ op: "add", inventory_id: 1, quantity: 2 },
+					{ op: "add", inventory_id: 2, quantity: 1 },
+				],
+			};
+
+			await cartController.batchUpdateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				mode: "all_or_nothing",
+				applied: true,
+				results: [
+					expect.objectContaining({ index: 0, status: 201 }),
+					expect.objectContaining({ index: 1, status: 201 }),
+				],
+			});
+			expect(await brewery.getCart(1)).toHaveLength(2);
+		});
+
+		// Test a rejected all-or-nothing batch
+		it("should return 422 and write nothing if any operation fails", async () => {
+			mockRequest.body = {
+				mode: "all_or_nothing",
+				operations: [
+					{ op: "add", inventory_id: 1, quantity: 2 },
+					{ op: "add", inventory_id: 2, quantity: 2 },
+				],
+			};
+
+			await cartController.batchUpdateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(422);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					code: "BATCH_REJECTED",
+					applied: false,
+				})
+			);
+			expect(await brewery.getCart(1)).toEqual([]);
+		});
+
+		// Test best-effort mode
+		it("should keep the operations that pass in best-effort mode", async () => {
+			mockRequest.body = {
+				mode: "best_effort",
+				operations: [
+					{ op: "add", inventory_id: 1, quantity: 2 },
+					{ op: "add", inventory_id: 2, quantity: 2 },
+				],
+			};
+
+			await cartController.batchUpdateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(
+				(mockResponse.json as jest.Mock).mock.calls[0][0].results.map(
+					(result: { status: number }) => result.status
+				)
+			).toEqual([201, 400]);
+			expect(await brewery.getCart(1)).toHaveLength(1);
+		});
+
+		// Test another user's cart
+		it("should return 403 if user is unauthorized", async () => {
+			mockRequest.params = { user_id: "2" };
+			mockRequest.body = { operations: [{ op: "remove", id: 1 }] };
+
+			await cartController.batchUpdateCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+	});
 });
@@ -0,0 +1,519 @@
+import { GuestCartController } from "../guestCartController";
+import { Response } from "express";
+import { GuestRequest, decodeGuestToken } from "../../middleware/guest";
+import { guestCartStore } from "../../services/guestCartStore";
+import { config } from "../../config/config";
+import { upstreamClient } from "../../ports/http/upstreamClient";
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { purchaseLimits } from "../../services/limits/purchaseLimits";
+import { outboxStore } from "../../services/outbox/outboxStore";
+import { reservationStore } from "../../services/reservations/reservationStore";
+import axios from "axios";
+import { validationResult, ValidationError } from "express-validator";
+
+// Mock axios for API calls
+jest.mock("axios", () => ({
+	get: jest.fn(),
+	post: jest.fn(),
+	put: jest.fn(),
+	delete: jest.fn(),
+}));
+
+// Mock express-validator
+jest.mock("express-validator", () => ({
+	validationResult: jest.fn(),
+}));
+
+// Type the mocked validationResult
+const mockedValidationResult =
+	validationResult as unknown as jest.MockedFunction<
+		() => {
+			isEmpty: () => boolean;
+			array: () => ValidationError[];
+		}
+	>;
+
+describe("GuestCartController", () => {
+	let guestCartController: GuestCartController;
+	let mockRequest: Partial<GuestRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	// Set up fresh controller and mocks before each test
+	beforeEach(() => {
+		// Reset mocks so queued responses don't leak between tests
+		jest.resetAllMocks();
+		guestCartController = new GuestCartController();
+		mockRequest = {
+			body: {},
+			params: {},
+			headers: { authorization: "Bearer mock-token" },
+			guest: { id: "guest-1" },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+		};
+		mockNext = jest.fn();
+		config.jwtSecret = "test-secret";
+		config.upstreamRetries = 0;
+		upstreamClient.resetCircuit();
+		guestCartStore.clear("guest-1");
+		mockedValidationResult.mockReturnValue({
+			isEmpty: () => true,
+			array: () => [],
+		});
+		// Quiet down console logs during tests
+		jest.spyOn(console, "error").mockImplementation(() => {});
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	describe("createGuestCart", () => {
+		// Test minting a guest token
+		it("should issue a signed guest token", async () => {
+			await guestCartController.createGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(body.expires_in).toBe(config.guestCartTtlSeconds);
+			expect(decodeGuestToken(body.guest_token)).toEqual(
+				expect.any(String)
+			);
+		});
+
+		// Test missing secret
+		it("should return 500 if JWT secret is missing", async () => {
+			config.jwtSecret = "";
+
+			await guestCartController.createGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(500);
+		});
+	});
+
+	describe("addToGuestCart", () => {
+		// Test adding a new line
+		it("should add to guest cart successfully", async () => {
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { stockQuantity: 10 },
+			});
+			mockRequest.body = { inventory_id: "1", quantity: 2 };
+
+			await guestCartController.addToGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(axios.get).toHaveBeenCalledWith(
+				"http://localhost:5089/api/inventory/1",
+				expect.any(Object)
+			);
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				inventory_id: 1,
+				quantity: 2,
+			});
+		});
+
+		// Test stock check uses the combined quantity
+		it("should check stock against the combined quantity", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 4);
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { stockQuantity: 5 },
+			});
+			mockRequest.body = { inventory_id: "1", quantity: 2 };
+
+			await guestCartController.addToGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Insufficient stock",
+			});
+			expect(guestCartStore.getItem("guest-1", 1)?.quantity).toBe(4);
+		});
+
+		// Test validation failure
+		it("should return 400 if validation fails", async () => {
+			mockedValidationResult.mockReturnValue({
+				isEmpty: () => false,
+				array: () => [
+					{ msg: "Quantity must be at least 1" } as ValidationError,
+				],
+			});
+
+			await guestCartController.addToGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				errors: [{ msg: "Quantity must be at least 1" }],
+			});
+		});
+
+		// Test missing guest
+		it("should return 403 if req.guest is undefined", async () => {
+			mockRequest.guest = undefined;
+
+			await guestCartController.addToGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+			expect(axios.get).not.toHaveBeenCalled();
+		});
+
+		// Test error without response
+		it("should handle error without response", async () => {
+			(axios.get as jest.Mock).mockRejectedValue(
+				new Error("Network error")
+			);
+			mockRequest.body = { inventory_id: "1", quantity: 2 };
+
+			await guestCartController.addToGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(500);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Error adding to guest cart",
+				error: "Network error",
+			});
+		});
+	});
+
+	describe("getGuestCart", () => {
+		// Test reading the guest cart
+		it("should return the guest cart items", async () => {
+			guestCartStore.setQuantity("guest-1", 3, 1);
+
+			await guestCartController.getGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith([
+				{ inventory_id: 3, quantity: 1 },
+			]);
+		});
+	});
+
+	describe("updateGuestCart", () => {
+		// Test updating a line
+		it("should update guest cart successfully", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 1);
+			(axios.get as jest.Mock).mockResolvedValueOnce({
+				data: { stockQuantity: 10 },
+			});
+			mockRequest.params = { inventory_id: "1" };
+			mockRequest.body = { quantity: 3 };
+
+			await guestCartController.updateGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				inventory_id: 1,
+				quantity: 3,
+			});
+		});
+
+		// Test updating a missing line
+		it("should return 404 if the item is not in the guest cart", async () => {
+			mockRequest.params = { inventory_id: "9" };
+			mockRequest.body = { quantity: 3 };
+
+			await guestCartController.updateGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+			expect(axios.get).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("removeFromGuestCart", () => {
+		// Test removing a line
+		it("should remove from guest cart successfully", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 1);
+			mockRequest.params = { inventory_id: "1" };
+
+			await guestCartController.removeFromGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(guestCartStore.getItems("guest-1")).toEqual([]);
+		});
+
+		// Test removing a missing line
+		it("should return 404 if the item is not in the guest cart", async () => {
+			mockRequest.params = { inventory_id: "1" };
+
+			await guestCartController.removeFromGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+
+	describe("mergeGuestCart", () => {
+		beforeEach(() => {
+			mockRequest.user = {
+				id: 1,
+				email: "test@example.com",
+				ageVerified: true,
+			};
+		});
+
+		// Test merging with duplicate and new lines
+		it("should combine duplicate lines and add new ones", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 2);
+			guestCartStore.setQuantity("guest-1", 2, 1);
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ id: 7, user_id: 1, inventory_id: 1, quantity: 3 }],
+				})
+				.mockResolvedValueOnce({ data: { stockQuantity: 10 } })
+				.mockResolvedValueOnce({ data: { stockQuantity: 10 } })
+				.mockResolvedValueOnce({ data: [{ id: 7 }, { id: 8 }] });
+			(axios.put as jest.Mock).mockResolvedValue({ data: {} });
+			(axios.post as jest.Mock).mockResolvedValue({ data: {} });
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(axios.put).toHaveBeenCalledWith(
+				"http://localhost:5089/api/cart/update/7",
+				{ quantity: 5 },
+				expect.any(Object)
+			);
+			expect(axios.post).toHaveBeenCalledWith(
+				"http://localhost:5089/api/cart/add",
+				{ user_id: 1, inventory_id: 2, quantity: 1 },
+				expect.any(Object)
+			);
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [{ id: 7 }, { id: 8 }],
+				adjustments: [],
+			});
+			expect(guestCartStore.getItems("guest-1")).toEqual([]);
+		});
+
+		// Test clamping to available stock
+		it("should clamp merged quantities to available stock", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 4);
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({
+					data: [{ id: 7, user_id: 1, inventory_id: 1, quantity: 3 }],
+				})
+				.mockResolvedValueOnce({ data: { stockQuantity: 5 } })
+				.mockResolvedValueOnce({ data: [{ id: 7 }] });
+			(axios.put as jest.Mock).mockResolvedValue({ data: {} });
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(axios.put).toHaveBeenCalledWith(
+				"http://localhost:5089/api/cart/update/7",
+				{ quantity: 5 },
+				expect.any(Object)
+			);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [{ id: 7 }],
+				adjustments: [
+					{
+						inventory_id: 1,
+						requested: 7,
+						quantity: 5,
+						message: "Insufficient stock",
+					},
+				],
+			});
+		});
+
+		// Test the age gate on merged lines
+		it("should leave out alcoholic lines for unverified users", async () => {
+			mockRequest.user = { id: 1, email: "test@example.com" };
+			guestCartStore.setQuantity("guest-1", 1, 2);
+			guestCartStore.setQuantity("guest-1", 2, 1);
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({ data: [] })
+				.mockResolvedValueOnce({ data: { stockQuantity: 10 } })
+				.mockResolvedValueOnce({
+					data: { stockQuantity: 10, category: "merchandise" },
+				})
+				.mockResolvedValueOnce({ data: [{ id: 8 }] });
+			(axios.post as jest.Mock).mockResolvedValue({ data: {} });
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(axios.post).toHaveBeenCalledTimes(1);
+			expect(axios.post).toHaveBeenCalledWith(
+				"http://localhost:5089/api/cart/add",
+				{ user_id: 1, inventory_id: 2, quantity: 1 },
+				expect.any(Object)
+			);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [{ id: 8 }],
+				adjustments: [
+					{
+						inventory_id: 1,
+						requested: 2,
+						quantity: 0,
+						message: "Age verification is required to buy alcohol",
+						code: "AGE_VERIFICATION_REQUIRED",
+					},
+				],
+			});
+		});
+
+		// Test merged lines go through purchase limits and the outbox
+		it("should apply purchase limits and record merged lines", async () => {
+			const brewery = new InMemoryBreweryApiClient([
+				{ id: 1, price: 5, stockQuantity: 10, maxPerOrder: 3 },
+				{ id: 2, price: 4, stockQuantity: 10, category: "merchandise" },
+			]);
+			guestCartController = new GuestCartController(brewery);
+			guestCartStore.setQuantity("guest-1", 1, 5);
+			guestCartStore.setQuantity("guest-1", 2, 2);
+			const purchasedBefore = purchaseLimits.purchasedQuantity(1, 2);
+			outboxStore.clear();
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(body.adjustments).toEqual([
+				expect.objectContaining({
+					inventory_id: 1,
+					requested: 5,
+					quantity: 0,
+					message: "Purchase limit exceeded",
+				}),
+			]);
+			expect(await brewery.getCart(1)).toEqual([
+				expect.objectContaining({ inventory_id: 2, quantity: 2 }),
+			]);
+			expect(purchaseLimits.purchasedQuantity(1, 2)).toBe(
+				purchasedBefore + 2
+			);
+			expect(outboxStore.list().map((entry) => entry.event.type)).toEqual(
+				["CartItemAdded"]
+			);
+			outboxStore.clear();
+			reservationStore.releaseAll(1);
+		});
+
+		// Test a failed write keeps only the lines not yet merged
+		it("should drop merged lines when a later write fails", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 2);
+			guestCartStore.setQuantity("guest-1", 2, 1);
+			(axios.get as jest.Mock)
+				.mockResolvedValueOnce({ data: [] })
+				.mockResolvedValueOnce({ data: { stockQuantity: 10 } })
+				.mockResolvedValueOnce({ data: { stockQuantity: 10 } });
+			(axios.post as jest.Mock)
+				.mockResolvedValueOnce({
+					data: { id: 8, user_id: 1, inventory_id: 1, quantity: 2 },
+				})
+				.mockRejectedValueOnce({
+					response: { status: 502, data: { message: "Bad gateway" } },
+				});
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(502);
+			expect(guestCartStore.getItems("guest-1")).toEqual([
+				{ inventory_id: 2, quantity: 1 },
+			]);
+			guestCartStore.clear("guest-1");
+			reservationStore.releaseAll(1);
+		});
+
+		// Test missing user
+		it("should return 403 if req.user is undefined", async () => {
+			mockRequest.user = undefined;
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+			expect(axios.get).not.toHaveBeenCalled();
+		});
+
+		// Test API error keeps the guest cart
+		it("should keep the guest cart if the merge fails", async () => {
+			guestCartStore.setQuantity("guest-1", 1, 2);
+			(axios.get as jest.Mock).mockRejectedValue({
+				response: { status: 502, data: { message: "Bad gateway" } },
+			});
+
+			await guestCartController.mergeGuestCart(
+				mockRequest as GuestRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(502);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Bad gateway",
+				error: undefined,
+			});
+			expect(guestCartStore.getItems("guest-1")).toHaveLength(1);
+		});
+	});
+});
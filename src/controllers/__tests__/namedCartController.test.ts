@@ -0,0 +1,288 @@
+import { Response } from "express";
+import { validationResult, ValidationError } from "express-validator";
+import { config } from "../../config/config";
+import { AuthRequest } from "../../middleware/auth";
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { InventoryCache } from "../../services/inventoryCache";
+import { InventoryLoader } from "../../services/inventoryLoader";
+import { namedCartStore } from "../../services/namedCartStore";
+import { priceSnapshotStore } from "../../services/priceSnapshots";
+import { promoStore } from "../../services/promotions/promoStore";
+import { reservationStore } from "../../services/reservations/reservationStore";
+import { CartController } from "../cartController";
+import { NamedCartController } from "../namedCartController";
+
+// Mock express-validator
+jest.mock("express-validator", () => ({
+	validationResult: jest.fn(),
+}));
+
+// Type the mocked validationResult
+const mockedValidationResult =
+	validationResult as unknown as jest.MockedFunction<
+		() => {
+			isEmpty: () => boolean;
+			array: () => ValidationError[];
+		}
+	>;
+
+describe("NamedCartController", () => {
+	let brewery: InMemoryBreweryApiClient;
+	let controller: NamedCartController;
+	let mockRequest: Partial<AuthRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	const call = async (
+		method: keyof NamedCartController,
+		params: Record<string, string>,
+		body: Record<string, unknown> = {}
+	) => {
+		mockRequest.params = params;
+		mockRequest.body = body;
+		(mockResponse.status as jest.Mock).mockClear();
+		(mockResponse.json as jest.Mock).mockClear();
+		await (controller[method] as Function).call(
+			controller,
+			mockRequest as AuthRequest,
+			mockResponse as Response,
+			mockNext
+		);
+		return (mockResponse.json as jest.Mock).mock.calls[0]?.[0];
+	};
+
+	beforeEach(() => {
+		for (const cart of [
+			...namedCartStore.list(1),
+			...namedCartStore.list(2),
+		]) {
+			namedCartStore.delete(cart.user_id, cart.id);
+		}
+		reservationStore.releaseAll(1);
+		config.maxNamedCarts = 10;
+		brewery = new InMemoryBreweryApiClient([
+			{ id: 1, price: 4, stockQuantity: 10, category: "merchandise" },
+			{ id: 2, price: 6, stockQuantity: 2, category: "merchandise" },
+		]);
+		const loader = new InventoryLoader(
+			brewery,
+			2,
+			false,
+			new InventoryCache()
+		);
+		controller = new NamedCartController(
+			brewery,
+			loader,
+			new CartController(brewery, loader)
+		);
+		mockRequest = {
+			headers: { authorization: "Bearer mock-token" },
+			query: {},
+			user: { id: 1, email: "test@example.com" },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+			set: jest.fn(),
+		};
+		mockNext = jest.fn();
+		mockedValidationResult.mockReturnValue({
+			isEmpty: () => true,
+			array: () => [],
+		});
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	// Test creating and listing carts
+	it("should create named carts and list them after the default cart", async () => {
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+		expect(mockResponse.status).toHaveBeenCalledWith(201);
+		expect(party).toEqual(
+			expect.objectContaining({
+				id: expect.stringMatching(/^cart_/),
+				name: "Saturday party",
+				selected: false,
+			})
+		);
+
+		const carts = await call("listCarts", { user_id: "1" });
+
+		expect(carts).toEqual([
+			{ id: "default", name: "Default", selected: true },
+			expect.objectContaining({ id: party.id, selected: false }),
+		]);
+	});
+
+	// Test duplicate names and the per-user cap
+	it("should reject duplicate names and carts over the limit", async () => {
+		config.maxNamedCarts = 1;
+		await call("createCart", { user_id: "1" }, { name: "Restock" });
+
+		await call("createCart", { user_id: "1" }, { name: "restock" });
+		expect(mockResponse.status).toHaveBeenCalledWith(409);
+
+		const body = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Club" }
+		);
+		expect(mockResponse.status).toHaveBeenCalledWith(422);
+		expect(body.code).toBe("CART_LIMIT_REACHED");
+	});
+
+	// Test named carts are kept apart from the default cart
+	it("should add to a named cart without touching the default cart", async () => {
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+
+		const line = await call(
+			"addToCart",
+			{ user_id: "1", cart_id: party.id },
+			{ inventory_id: 1, quantity: 3 }
+		);
+		expect(mockResponse.status).toHaveBeenCalledWith(201);
+
+		const total = await call("getCartTotal", {
+			user_id: "1",
+			cart_id: party.id,
+		});
+		expect(total.subtotal).toBe(12);
+		expect(await brewery.getCart(1)).toEqual([]);
+		expect(reservationStore.get(1, 1)).toBeUndefined();
+
+		await call(
+			"updateCart",
+			{ user_id: "1", cart_id: party.id, id: line.id.toString() },
+			{ quantity: 5 }
+		);
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(namedCartStore.getLines(party.id)[0].quantity).toBe(5);
+	});
+
+	// Test the default cart's promo code and price snapshots stay on it
+	it("should total a named cart without the default cart's promo or snapshots", async () => {
+		promoStore.apply(1, "IPA10");
+		priceSnapshotStore.record(1, 1, 3);
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+		namedCartStore.addLine(party.id, 1, 1, 2);
+
+		const total = await call("getCartTotal", {
+			user_id: "1",
+			cart_id: party.id,
+		});
+
+		expect(total.discounts).toEqual([]);
+		expect(total.promo_error).toBeUndefined();
+		expect(total.price_changes).toBeUndefined();
+		promoStore.remove(1);
+		priceSnapshotStore.releaseAll(1);
+	});
+
+	// Test stock is still checked for named carts
+	it("should check stock when adding to a named cart", async () => {
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+
+		const body = await call(
+			"addToCart",
+			{ user_id: "1", cart_id: party.id },
+			{ inventory_id: 2, quantity: 3 }
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(400);
+		expect(body).toEqual({ message: "Insufficient stock" });
+	});
+
+	// Test the default cart id goes to the existing cart
+	it("should treat the default cart id as the user's regular cart", async () => {
+		await call(
+			"addToCart",
+			{ user_id: "1", cart_id: "default" },
+			{ inventory_id: 1, quantity: 2 }
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(201);
+		expect(await brewery.getCart(1)).toHaveLength(1);
+		expect(reservationStore.get(1, 1)?.quantity).toBe(2);
+	});
+
+	// Test selecting a cart and the current alias
+	it("should resolve current to the selected cart", async () => {
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+		await call("selectCart", { user_id: "1", cart_id: party.id });
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+
+		await call(
+			"addToCart",
+			{ user_id: "1", cart_id: "current" },
+			{ inventory_id: 1, quantity: 1 }
+		);
+		expect(namedCartStore.getLines(party.id)).toHaveLength(1);
+
+		// Deleting the selected cart falls back to the default one
+		await call("deleteCart", { user_id: "1", cart_id: party.id });
+		expect(namedCartStore.selectedCartId(1)).toBe("default");
+		expect(namedCartStore.getLines(party.id)).toEqual([]);
+	});
+
+	// Test renaming and clearing
+	it("should rename and clear a named cart", async () => {
+		const party = await call(
+			"createCart",
+			{ user_id: "1" },
+			{ name: "Saturday party" }
+		);
+		namedCartStore.addLine(party.id, 1, 1, 2);
+
+		const renamed = await call(
+			"renameCart",
+			{ user_id: "1", cart_id: party.id },
+			{ name: "Sunday party" }
+		);
+		expect(renamed.name).toBe("Sunday party");
+
+		await call("clearCart", { user_id: "1", cart_id: party.id });
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(namedCartStore.getLines(party.id)).toEqual([]);
+	});
+
+	// Test the default cart can't be renamed or deleted
+	it("should return 400 when renaming or deleting the default cart", async () => {
+		const body = await call("deleteCart", {
+			user_id: "1",
+			cart_id: "default",
+		});
+
+		expect(mockResponse.status).toHaveBeenCalledWith(400);
+		expect(body.code).toBe("DEFAULT_CART");
+	});
+
+	// Test ownership
+	it("should hide other users' carts", async () => {
+		const theirs = namedCartStore.create(2, "Club");
+
+		await call("getCart", { user_id: "1", cart_id: theirs.id });
+		expect(mockResponse.status).toHaveBeenCalledWith(404);
+
+		await call("listCarts", { user_id: "2" });
+		expect(mockResponse.status).toHaveBeenCalledWith(403);
+	});
+});
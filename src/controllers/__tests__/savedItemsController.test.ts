@@ -0,0 +1,197 @@
+import { Response } from "express";
+import { AuthRequest } from "../../middleware/auth";
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { InventoryCache } from "../../services/inventoryCache";
+import { InventoryLoader } from "../../services/inventoryLoader";
+import { reservationStore } from "../../services/reservations/reservationStore";
+import { savedItemStore } from "../../services/savedItemStore";
+import { SavedItemsController } from "../savedItemsController";
+
+describe("SavedItemsController", () => {
+	let brewery: InMemoryBreweryApiClient;
+	let controller: SavedItemsController;
+	let mockRequest: Partial<AuthRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	beforeEach(async () => {
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+		savedItemStore.clear(1);
+		brewery = new InMemoryBreweryApiClient([
+			{ id: 1, name: "Hop Harbour IPA", price: 4, stockQuantity: 10 },
+			{ id: 2, price: 5, stockQuantity: 3 },
+		]);
+		controller = new SavedItemsController(
+			brewery,
+			new InventoryLoader(brewery, 2, false, new InventoryCache())
+		);
+		mockRequest = {
+			body: {},
+			params: {},
+			headers: { authorization: "Bearer mock-token" },
+			user: { id: 1, email: "test@example.com", ageVerified: true },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+		};
+		mockNext = jest.fn();
+		await brewery.addCartItem({ user_id: 1, inventory_id: 1, quantity: 2 });
+		await brewery.addCartItem({ user_id: 2, inventory_id: 1, quantity: 1 });
+	});
+
+	describe("saveForLater", () => {
+		// Test moving a cart line to the list
+		it("should move the line out of the cart and onto the list", async () => {
+			reservationStore.hold(1, 1, 2);
+			mockRequest.params = { id: "1" };
+
+			await controller.saveForLater(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					user_id: 1,
+					inventory_id: 1,
+					quantity: 2,
+				})
+			);
+			expect(await brewery.getCart(1)).toEqual([]);
+			expect(savedItemStore.list(1)).toHaveLength(1);
+			expect(reservationStore.get(1, 1)).toBeUndefined();
+		});
+
+		// Test another user's line
+		it("should return 403 if the line belongs to someone else", async () => {
+			mockRequest.params = { id: "2" };
+
+			await controller.saveForLater(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+			expect(await brewery.getCart(2)).toHaveLength(1);
+		});
+
+		// Test a missing line
+		it("should return 404 if the line does not exist", async () => {
+			mockRequest.params = { id: "99" };
+
+			await controller.saveForLater(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+
+	describe("getSavedItems", () => {
+		// Test listing with current price and availability
+		it("should list saved items with price and availability", async () => {
+			savedItemStore.save(1, 1, 2);
+			savedItemStore.save(1, 2, 4);
+			reservationStore.hold(2, 2, 1);
+			mockRequest.params = { user_id: "1" };
+
+			await controller.getSavedItems(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				items: [
+					expect.objectContaining({
+						inventory_id: 1,
+						name: "Hop Harbour IPA",
+						unit_price: 4,
+						available: 10,
+						stock_status: "in_stock",
+					}),
+					expect.objectContaining({
+						inventory_id: 2,
+						unit_price: 5,
+						available: 2,
+						stock_status: "insufficient_stock",
+					}),
+				],
+			});
+		});
+
+		// Test another user's list
+		it("should return 403 if user is unauthorized", async () => {
+			mockRequest.params = { user_id: "2" };
+
+			await controller.getSavedItems(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+	});
+
+	describe("moveToCart", () => {
+		// Test moving a saved item back into the cart
+		it("should add the item back to the cart and drop it from the list", async () => {
+			const saved = savedItemStore.save(1, 1, 3);
+			mockRequest.params = { user_id: "1", id: saved.id.toString() };
+
+			await controller.moveToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			// The existing line takes the saved quantity
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(await brewery.getCart(1)).toEqual([
+				{ id: 1, user_id: 1, inventory_id: 1, quantity: 5 },
+			]);
+			expect(savedItemStore.list(1)).toEqual([]);
+			expect(reservationStore.get(1, 1)?.quantity).toBe(5);
+		});
+
+		// Test the stock recheck
+		it("should keep the item saved if stock has run short", async () => {
+			const saved = savedItemStore.save(1, 2, 4);
+			mockRequest.params = { user_id: "1", id: saved.id.toString() };
+
+			await controller.moveToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				message: "Insufficient stock",
+			});
+			expect(savedItemStore.list(1)).toHaveLength(1);
+		});
+
+		// Test an unknown saved item
+		it("should return 404 if the saved item does not exist", async () => {
+			mockRequest.params = { user_id: "1", id: "99" };
+
+			await controller.moveToCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+});
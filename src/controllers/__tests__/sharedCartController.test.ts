@@ -0,0 +1,279 @@
+import { Response } from "express";
+import jwt from "jsonwebtoken";
+import { validationResult, ValidationError } from "express-validator";
+import { config } from "../../config/config";
+import { AuthRequest, verifyToken } from "../../middleware/auth";
+import { HttpBreweryApiClient } from "../../ports/brewery/httpBreweryApiClient";
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { UpstreamClient } from "../../ports/http/upstreamClient";
+import { InventoryCache } from "../../services/inventoryCache";
+import { InventoryLoader } from "../../services/inventoryLoader";
+import { namedCartStore } from "../../services/namedCartStore";
+import { reservationStore } from "../../services/reservations/reservationStore";
+import { issueShareToken } from "../../services/shareLinks";
+import { SharedCartController } from "../sharedCartController";
+
+// Mock express-validator
+jest.mock("express-validator", () => ({
+	validationResult: jest.fn(),
+}));
+
+// Type the mocked validationResult
+const mockedValidationResult =
+	validationResult as unknown as jest.MockedFunction<
+		() => {
+			isEmpty: () => boolean;
+			array: () => ValidationError[];
+		}
+	>;
+
+describe("SharedCartController", () => {
+	let brewery: InMemoryBreweryApiClient;
+	let controller: SharedCartController;
+	let mockRequest: Partial<AuthRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	beforeEach(async () => {
+		config.jwtSecret = "test-secret";
+		config.shareLinkTtlSeconds = 604800;
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+		brewery = new InMemoryBreweryApiClient([
+			{
+				id: 1,
+				name: "Hop Harbour IPA",
+				price: 4,
+				stockQuantity: 10,
+				category: "merchandise",
+			},
+			{ id: 2, price: 6, stockQuantity: 2, category: "merchandise" },
+		]);
+		controller = new SharedCartController(
+			brewery,
+			new InventoryLoader(brewery, 2, false, new InventoryCache())
+		);
+		mockRequest = {
+			body: {},
+			params: {},
+			headers: { authorization: "Bearer mock-token" },
+			user: { id: 1, email: "test@example.com" },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+		};
+		mockNext = jest.fn();
+		mockedValidationResult.mockReturnValue({
+			isEmpty: () => true,
+			array: () => [],
+		});
+		await brewery.addCartItem({ user_id: 1, inventory_id: 1, quantity: 2 });
+		await brewery.addCartItem({ user_id: 1, inventory_id: 2, quantity: 2 });
+	});
+
+	describe("createShareLink", () => {
+		// Test minting a share token
+		it("should issue a share token for the user's cart", async () => {
+			mockRequest.params = { user_id: "1" };
+			mockRequest.body = { expires_in: 3600 };
+
+			await controller.createShareLink(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(201);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(body).toEqual({
+				share_token: expect.any(String),
+				cart_id: "default",
+				expires_in: 3600,
+				expires_at: expect.any(String),
+			});
+			expect(jwt.decode(body.share_token)).toEqual(
+				expect.objectContaining({ sub: "1", type: "cart_share" })
+			);
+		});
+
+		// Test another user's cart
+		it("should return 403 if user is unauthorized", async () => {
+			mockRequest.params = { user_id: "2" };
+
+			await controller.createShareLink(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(403);
+		});
+
+		// Test an unknown named cart
+		it("should return 404 for a named cart the user doesn't have", async () => {
+			mockRequest.params = { user_id: "1" };
+			mockRequest.body = { cart_id: "cart_999" };
+
+			await controller.createShareLink(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+
+	describe("getSharedCart", () => {
+		// Test the read-only view
+		it("should render the enriched cart without owner details", async () => {
+			mockRequest.params = { token: issueShareToken(1, "default").token };
+
+			await controller.getSharedCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(body.items[0]).toEqual(
+				expect.objectContaining({
+					inventory_id: 1,
+					name: "Hop Harbour IPA",
+					unit_price: 4,
+					line_subtotal: 8,
+				})
+			);
+			expect(body.items[0].user_id).toBeUndefined();
+			expect(body.subtotal).toBe(20);
+			expect(body.expires_at).toEqual(expect.any(String));
+		});
+
+		// Test the owner's cart is read with the service token
+		it("should read the cart upstream with the service token", async () => {
+			const http = {
+				get: jest.fn().mockResolvedValue({ data: [] }),
+			} as unknown as UpstreamClient;
+			const upstream = new HttpBreweryApiClient(
+				"http://brewery",
+				http,
+				"service-token"
+			);
+			controller = new SharedCartController(
+				upstream,
+				new InventoryLoader(upstream, 2, false, new InventoryCache())
+			);
+			mockRequest.params = { token: issueShareToken(1, "default").token };
+
+			await controller.getSharedCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(http.get).toHaveBeenCalledWith("http://brewery/api/cart/1", {
+				headers: { Authorization: "Bearer service-token" },
+			});
+		});
+
+		// Test expired and forged tokens
+		it("should return 404 for an expired or forged token", async () => {
+			const expired = jwt.sign(
+				{ sub: "1", cart: "default", type: "cart_share" },
+				"test-secret",
+				{ expiresIn: -10 }
+			);
+			const forged = jwt.sign(
+				{ sub: "1", cart: "default", type: "cart_share" },
+				"wrong-secret"
+			);
+
+			for (const token of [expired, forged]) {
+				mockRequest.params = { token };
+				await controller.getSharedCart(
+					mockRequest as AuthRequest,
+					mockResponse as Response,
+					mockNext
+				);
+			}
+
+			expect(mockResponse.status).toHaveBeenNthCalledWith(1, 404);
+			expect(mockResponse.status).toHaveBeenNthCalledWith(2, 404);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "SHARE_LINK_INVALID" })
+			);
+		});
+
+		// Test a share link for a named cart that was deleted
+		it("should return 404 once the shared named cart is deleted", async () => {
+			const cart = namedCartStore.create(1, "Party");
+			const { token } = issueShareToken(1, cart.id);
+			namedCartStore.delete(1, cart.id);
+			mockRequest.params = { token };
+
+			await controller.getSharedCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+	});
+
+	describe("importSharedCart", () => {
+		// Test copying lines with a stock check
+		it("should copy the lines that are still in stock", async () => {
+			reservationStore.hold(1, 2, 2);
+			mockRequest.user = { id: 2, email: "friend@example.com" };
+			mockRequest.params = { token: issueShareToken(1, "default").token };
+
+			await controller.importSharedCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+			expect(
+				body.results.map((result: { status: number }) => result.status)
+			).toEqual([201, 400]);
+			expect(await brewery.getCart(2)).toEqual([
+				expect.objectContaining({ inventory_id: 1, quantity: 2 }),
+			]);
+			// The owner's cart is left alone
+			expect(await brewery.getCart(1)).toHaveLength(2);
+		});
+
+		// Test importing a cart into itself
+		it("should return 400 when importing the user's own cart", async () => {
+			mockRequest.params = { token: issueShareToken(1, "default").token };
+
+			await controller.importSharedCart(
+				mockRequest as AuthRequest,
+				mockResponse as Response,
+				mockNext
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+		});
+	});
+
+	// Test share tokens can't stand in for user tokens
+	it("should not accept a share token as a user token", () => {
+		const req = {
+			headers: {
+				authorization: `Bearer ${issueShareToken(1, "default").token}`,
+			},
+		} as AuthRequest;
+
+		verifyToken(req, mockResponse as Response, mockNext);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(401);
+		expect(mockNext).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,174 @@
+import { Response } from "express";
+import { validationResult, ValidationError } from "express-validator";
+import { AuthRequest } from "../../middleware/auth";
+import { createCartEvent } from "../../services/events/cartEvents";
+import { WebhookDeliveryStore } from "../../services/webhooks/webhookDeliveryStore";
+import { WebhookSubscriptionStore } from "../../services/webhooks/webhookSubscriptionStore";
+import { WebhookController } from "../webhookController";
+
+// Mock express-validator
+jest.mock("express-validator", () => ({
+	validationResult: jest.fn(),
+}));
+
+// Type the mocked validationResult
+const mockedValidationResult =
+	validationResult as unknown as jest.MockedFunction<
+		() => {
+			isEmpty: () => boolean;
+			array: () => ValidationError[];
+		}
+	>;
+
+describe("WebhookController", () => {
+	let subscriptions: WebhookSubscriptionStore;
+	let deliveries: WebhookDeliveryStore;
+	let controller: WebhookController;
+	let mockRequest: Partial<AuthRequest>;
+	let mockResponse: Partial<Response>;
+	let mockNext: jest.Mock;
+
+	const call = async (
+		method: keyof WebhookController,
+		params: Record<string, string> = {},
+		body: Record<string, unknown> = {}
+	) => {
+		mockRequest.params = params;
+		mockRequest.body = body;
+		(mockResponse.status as jest.Mock).mockClear();
+		(mockResponse.json as jest.Mock).mockClear();
+		await (controller[method] as Function).call(
+			controller,
+			mockRequest as AuthRequest,
+			mockResponse as Response,
+			mockNext
+		);
+		return (mockResponse.json as jest.Mock).mock.calls[0]?.[0];
+	};
+
+	beforeEach(() => {
+		subscriptions = new WebhookSubscriptionStore();
+		deliveries = new WebhookDeliveryStore();
+		controller = new WebhookController(subscriptions, deliveries);
+		mockRequest = {
+			user: { id: 1, email: "admin@example.com", role: "admin" },
+		};
+		mockResponse = {
+			status: jest.fn().mockReturnThis(),
+			json: jest.fn(),
+		};
+		mockNext = jest.fn();
+		mockedValidationResult.mockReturnValue({
+			isEmpty: () => true,
+			array: () => [],
+		});
+	});
+
+	// Test registering a webhook
+	it("should register a webhook for every cart event by default", async () => {
+		const created = await call(
+			"createWebhook",
+			{},
+			{ url: "https://partner.example/hooks" }
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(201);
+		expect(created).toEqual(
+			expect.objectContaining({
+				id: expect.stringMatching(/^wh_/),
+				url: "https://partner.example/hooks",
+				event_types: [
+					"CartItemAdded",
+					"CartItemQuantityChanged",
+					"CartItemRemoved",
+					"CartCleared",
+				],
+				secret: expect.stringMatching(/^whsec_/),
+			})
+		);
+
+		// The secret isn't shown again
+		const [listed] = await call("listWebhooks");
+		expect(listed.secret).toBeUndefined();
+	});
+
+	// Test rotating the secret
+	it("should return a new secret and keep the old one for a grace period", async () => {
+		const created = subscriptions.create("https://partner.example/hooks", [
+			"CartCleared",
+		]);
+
+		const rotated = await call("rotateWebhookSecret", { id: created.id });
+
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(rotated.secret).not.toBe(created.secret);
+		expect(rotated.previous_secret).toBeUndefined();
+		expect(rotated.previous_secret_expires_at).toEqual(expect.any(String));
+	});
+
+	// Test changing the event types
+	it("should update the event types", async () => {
+		const created = subscriptions.create("https://partner.example/hooks", [
+			"CartCleared",
+		]);
+
+		const updated = await call(
+			"updateWebhook",
+			{ id: created.id },
+			{ event_types: ["CartItemAdded"] }
+		);
+
+		expect(updated.event_types).toEqual(["CartItemAdded"]);
+		expect(updated.url).toBe("https://partner.example/hooks");
+	});
+
+	// Test listing and replaying dead letters
+	it("should list dead letters and replay one", async () => {
+		const created = subscriptions.create("https://partner.example/hooks", [
+			"CartCleared",
+		]);
+		const delivery = deliveries.add(
+			created.id,
+			createCartEvent("CartCleared", { user_id: 1 })
+		);
+		deliveries.markFailed(delivery.id, { error: "timeout" });
+
+		const dead = await call("listDeadLetters", { id: created.id });
+		expect(dead).toEqual([
+			expect.objectContaining({ id: delivery.id, status: "dead" }),
+		]);
+
+		const replayed = await call("replayDeadLetter", {
+			id: created.id,
+			delivery_id: delivery.id,
+		});
+		expect(mockResponse.status).toHaveBeenCalledWith(202);
+		expect(replayed).toEqual(
+			expect.objectContaining({ status: "pending", attempts: 0 })
+		);
+
+		await call("replayDeadLetter", {
+			id: created.id,
+			delivery_id: delivery.id,
+		});
+		expect(mockResponse.status).toHaveBeenCalledWith(404);
+	});
+
+	// Test deleting a webhook drops its deliveries
+	it("should delete a webhook and its queued deliveries", async () => {
+		const created = subscriptions.create("https://partner.example/hooks", [
+			"CartCleared",
+		]);
+		deliveries.add(
+			created.id,
+			createCartEvent("CartCleared", { user_id: 1 })
+		);
+
+		await call("deleteWebhook", { id: created.id });
+
+		expect(mockResponse.status).toHaveBeenCalledWith(200);
+		expect(deliveries.due()).toEqual([]);
+		await call("deleteWebhook", { id: created.id });
+		expect(mockResponse.status).toHaveBeenCalledWith(404);
+	});
+});
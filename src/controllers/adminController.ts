@@ -0,0 +1,28 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { inventoryCache } from "../services/inventoryCache";
+
+export class AdminController {
+	async invalidateInventoryCache(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const removed = inventoryCache.invalidate(req.params.inventory_id);
+		res.status(200).json({
+			message: removed
+				? "Inventory cache entry invalidated"
+				: "Inventory item was not cached",
+			inventory_id: parseInt(req.params.inventory_id, 10),
+		});
+	}
+
+	async clearInventoryCache(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const cleared = inventoryCache.clear();
+		res.status(200).json({ message: "Inventory cache cleared", cleared });
+	}
+}
@@ -1,11 +1,54 @@
 import { Request, Response, NextFunction } from "express";
 import { validationResult } from "express-validator";
-import axios from "axios";
 import { config } from "../config/config";
 import { AuthRequest } from "../middleware/auth";
+import { breweryApiClient } from "../ports/brewery";
+import { BreweryApiClient, CartItem } from "../ports/brewery/breweryApiClient";
+import { cartActivityStore } from "../services/abandonment/cartActivityStore";
+import { CartMutationService } from "../services/cartMutations";
+import { calculateCartTotals, toPricedLine } from "../services/cartTotals";
+import { CartValidationService } from "../services/cartValidation";
+import { buildCartView } from "../services/cartView";
+import { CheckoutService } from "../services/checkout/checkoutService";
+import { currencyConverter } from "../services/currency/currencyConverter";
+import {
+	depositCalculator,
+	depositTotalOf,
+} from "../services/deposits/depositCalculator";
+import { promotionCatalog } from "../services/promotions/catalog";
+import {
+	PricedLine,
+	evaluatePromotion,
+} from "../services/promotions/promoEngine";
+import { promoStore } from "../services/promotions/promoStore";
+import { InventoryFailure, InventoryLoader } from "../services/inventoryLoader";
+import { priceSnapshotStore } from "../services/priceSnapshots";
+import { reservationStore } from "../services/reservations/reservationStore";
+import { sendUpstreamError } from "./upstreamError";
+import { taxCalculator } from "../services/tax/taxCalculator";
 
 export class CartController {
-	private readonly breweryApiUrl = config.breweryApiUrl;
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly checkoutService: CheckoutService = new CheckoutService(
+			brewery,
+			inventoryLoader
+		),
+		private readonly cartValidation: CartValidationService = new CartValidationService(
+			brewery,
+			inventoryLoader
+		),
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		),
+		// Promo codes and price snapshots are kept per user for the live
+		// cart, so they are left out when serving a named cart.
+		private readonly liveCart: boolean = true
+	) {}
 
 	async addToCart(
 		req: AuthRequest,
@@ -27,30 +70,31 @@ export class CartController {
 		}
 
 		try {
-			const inventoryResponse = await axios.get(
-				`${this.breweryApiUrl}/api/inventory/${req.body.inventory_id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const inventory = await this.inventoryLoader.fetchFresh(
+				req.body.inventory_id,
+				req.headers.authorization
 			);
-			if (inventoryResponse.data.stockQuantity < req.body.quantity) {
-				res.status(400).json({ message: "Insufficient stock" });
+			const plan = await this.cartMutations.planAdd(
+				req.user,
+				req.body,
+				inventory,
+				undefined,
+				req.headers.authorization
+			);
+			if ("rejection" in plan) {
+				res.status(plan.rejection.status).json(plan.rejection.body);
 				return;
 			}
-			const response = await axios.post(
-				`${this.breweryApiUrl}/api/cart/add`,
-				req.body,
-				{ headers: { Authorization: req.headers.authorization } }
+			const cartItem = await this.cartMutations.write(
+				plan.change,
+				req.headers.authorization
+			);
+			this.cartMutations.commit(plan.change, cartItem);
+			res.status(plan.change.lineId === undefined ? 201 : 200).json(
+				cartItem
 			);
-			res.status(201).json(response.data);
 		} catch (error: any) {
-			console.error(
-				"Error adding to cart:",
-				error.response?.data || error.message
-			);
-			res.status(error.response?.status || 500).json({
-				message:
-					error.response?.data?.message || "Error adding to cart",
-				error: error.response?.data?.errors || error.message,
-			});
+			sendUpstreamError(res, error, "Error adding to cart");
 		}
 	}
 
@@ -65,20 +109,53 @@ export class CartController {
 		}
 
 		try {
-			const response = await axios.get(
-				`${this.breweryApiUrl}/api/cart/${req.params.user_id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const items = await this.brewery.getCart(
+				parseInt(req.params.user_id, 10),
+				req.headers.authorization
 			);
-			res.status(200).json(response.data);
+			const include = String(req.query.include ?? "").split(",");
+			const enriched = req.query.view === "enriched";
+			if (!enriched && !include.includes("deposits")) {
+				res.status(200).json(items);
+				return;
+			}
+			let body: Record<string, unknown> = { items };
+			if (enriched) {
+				const { items: inventory, failures } =
+					await this.inventoryLoader.load(
+						items.map((item) => item.inventory_id),
+						req.headers.authorization
+					);
+				body = {
+					...buildCartView(
+						Number(req.params.user_id),
+						items,
+						inventory,
+						this.liveCart
+					),
+					...(failures.length > 0 && {
+						line_errors: failures.map(
+							({ error, ...failure }) => failure
+						),
+					}),
+				};
+			}
+			if (include.includes("deposits")) {
+				const lines = await this.priceAllLines(
+					items,
+					req.headers.authorization
+				);
+				const deposits = depositCalculator.calculate(
+					(req.query.province as string | undefined) ??
+						config.defaultProvince,
+					lines
+				);
+				body.deposits = deposits;
+				body.deposit_total = depositTotalOf(deposits);
+			}
+			res.status(200).json(body);
 		} catch (error: any) {
-			console.error(
-				"Error getting cart:",
-				error.response?.data || error.message
-			);
-			res.status(error.response?.status || 500).json({
-				message: error.response?.data?.message || "Error getting cart",
-				error: error.response?.data?.errors || error.message,
-			});
+			sendUpstreamError(res, error, "Error getting cart");
 		}
 	}
 
@@ -95,44 +172,41 @@ export class CartController {
 
 		try {
 			console.log(`Fetching cart item with id: ${req.params.id}`);
-			const cartItemResponse = await axios.get(
-				`${this.breweryApiUrl}/api/cart/item/${req.params.id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const cartItem = await this.brewery.getCartItem(
+				parseInt(req.params.id, 10),
+				req.headers.authorization
 			);
-			console.log("Cart item response:", cartItemResponse.data);
-			if (
-				req.user?.id.toString() !==
-				cartItemResponse.data.user_id.toString()
-			) {
+			console.log("Cart item response:", cartItem);
+			if (req.user?.id.toString() !== cartItem.user_id.toString()) {
 				res.status(403).json({ message: "Unauthorized" });
 				return;
 			}
-			const inventoryResponse = await axios.get(
-				`${this.breweryApiUrl}/api/inventory/${cartItemResponse.data.inventory_id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const inventory = await this.inventoryLoader.fetchFresh(
+				cartItem.inventory_id,
+				req.headers.authorization
 			);
-			if (inventoryResponse.data.stockQuantity < req.body.quantity) {
-				res.status(400).json({ message: "Insufficient stock" });
+			const plan = await this.cartMutations.planUpdate(
+				{ ...cartItem, id: parseInt(req.params.id, 10) },
+				req.body.quantity,
+				inventory,
+				undefined,
+				req.headers.authorization
+			);
+			if ("rejection" in plan) {
+				res.status(plan.rejection.status).json(plan.rejection.body);
 				return;
 			}
 			console.log(
 				`Updating cart item with id: ${req.params.id}, new quantity: ${req.body.quantity}`
 			);
-			const response = await axios.put(
-				`${this.breweryApiUrl}/api/cart/update/${req.params.id}`,
-				req.body,
-				{ headers: { Authorization: req.headers.authorization } }
+			const updated = await this.cartMutations.write(
+				plan.change,
+				req.headers.authorization
 			);
-			res.status(200).json(response.data);
+			this.cartMutations.commit(plan.change);
+			res.status(200).json(updated);
 		} catch (error: any) {
-			console.error(
-				"Error updating cart:",
-				error.response?.data || error.message
-			);
-			res.status(error.response?.status || 500).json({
-				message: error.response?.data?.message || "Error updating cart",
-				error: error.response?.data?.errors || error.message,
-			});
+			sendUpstreamError(res, error, "Error updating cart");
 		}
 	}
 
@@ -142,32 +216,62 @@ export class CartController {
 		next: NextFunction
 	): Promise<void> {
 		try {
-			const cartItemResponse = await axios.get(
-				`${this.breweryApiUrl}/api/cart/item/${req.params.id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const cartItem = await this.brewery.getCartItem(
+				parseInt(req.params.id, 10),
+				req.headers.authorization
 			);
-			if (
-				req.user?.id.toString() !==
-				cartItemResponse.data.user_id.toString()
-			) {
+			if (req.user?.id.toString() !== cartItem.user_id.toString()) {
 				res.status(403).json({ message: "Unauthorized" });
 				return;
 			}
-			const response = await axios.delete(
-				`${this.breweryApiUrl}/api/cart/remove/${req.params.id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			const { change } = this.cartMutations.planRemove({
+				...cartItem,
+				id: parseInt(req.params.id, 10),
+			});
+			const result = await this.cartMutations.write(
+				change,
+				req.headers.authorization
 			);
-			res.status(200).json(response.data);
+			this.cartMutations.commit(change);
+			res.status(200).json(result);
 		} catch (error: any) {
-			console.error(
-				"Error removing from cart:",
-				error.response?.data || error.message
-			);
-			res.status(error.response?.status || 500).json({
-				message:
-					error.response?.data?.message || "Error removing from cart",
-				error: error.response?.data?.errors || error.message,
-			});
+			sendUpstreamError(res, error, "Error removing from cart");
+		}
+	}
+
+	async batchUpdateCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		try {
+			const outcome = await this.cartMutations.batch(
+				req.user,
+				req.body.operations,
+				req.body.mode ?? "all_or_nothing",
+				req.headers.authorization
+			);
+			if (outcome.mode === "all_or_nothing" && !outcome.applied) {
+				res.status(422).json({
+					message: "Batch rejected",
+					code: "BATCH_REJECTED",
+					...outcome,
+				});
+				return;
+			}
+			res.status(200).json(outcome);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error applying cart batch");
 		}
 	}
 
@@ -182,20 +286,50 @@ export class CartController {
 		}
 
 		try {
-			const response = await axios.delete(
-				`${this.breweryApiUrl}/api/cart/clear/${req.params.user_id}`,
-				{ headers: { Authorization: req.headers.authorization } }
+			await this.brewery.clearCart(
+				parseInt(req.params.user_id, 10),
+				req.headers.authorization
 			);
+			this.cartMutations.commitClear(parseInt(req.params.user_id, 10));
 			res.status(200).json({ message: "Cart cleared successfully" });
 		} catch (error: any) {
-			console.error(
-				"Error clearing cart:",
-				error.response?.data || error.message
+			sendUpstreamError(res, error, "Error clearing cart");
+		}
+	}
+
+	async getHold(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		try {
+			const cartItem = await this.brewery.getCartItem(
+				parseInt(req.params.id, 10),
+				req.headers.authorization
+			);
+			if (
+				!req.user ||
+				req.user.id.toString() !== cartItem.user_id.toString()
+			) {
+				res.status(403).json({ message: "Unauthorized" });
+				return;
+			}
+			const hold = reservationStore.get(
+				req.user.id,
+				Number(cartItem.inventory_id)
 			);
-			res.status(error.response?.status || 500).json({
-				message: error.response?.data?.message || "Error clearing cart",
-				error: error.response?.data?.errors || error.message,
+			if (!hold) {
+				res.status(404).json({ message: "No active hold" });
+				return;
+			}
+			res.status(200).json({
+				id: cartItem.id,
+				inventory_id: hold.inventoryId,
+				quantity: hold.quantity,
+				expires_at: new Date(hold.expiresAt).toISOString(),
 			});
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error getting hold");
 		}
 	}
 
@@ -212,36 +346,297 @@ export class CartController {
 			"vs",
 			req.params.user_id
 		);
-		if (req.user?.id.toString() !== req.params.user_id) {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
 			res.status(403).json({ message: "Unauthorized" });
 			return;
 		}
+		const province = (
+			(req.query.province as string | undefined) ?? config.defaultProvince
+		).toUpperCase();
+		if (!taxCalculator.supports(province)) {
+			res.status(400).json({
+				message: `Unsupported province: ${province}`,
+				code: "UNSUPPORTED_PROVINCE",
+			});
+			return;
+		}
+		const currency = (
+			req.query.currency as string | undefined
+		)?.toUpperCase();
 		try {
-			const cartResponse = await axios.get(
-				`${this.breweryApiUrl}/api/cart/${req.params.user_id}`,
-				{ headers: { Authorization: req.headers.authorization } }
-			);
-			const cartItems = cartResponse.data;
-			let total = 0;
-			for (const item of cartItems) {
-				const inventoryResponse = await axios.get(
-					`${this.breweryApiUrl}/api/inventory/${item.inventory_id}`,
-					{ headers: { Authorization: req.headers.authorization } }
+			const rate = currency
+				? await currencyConverter.rateFor(currency)
+				: undefined;
+			if (currency && !rate) {
+				res.status(400).json({
+					message: `Unsupported currency: ${currency}`,
+					code: "UNSUPPORTED_CURRENCY",
+				});
+				return;
+			}
+			const { lines, failures } = await this.fetchPricedLines(
+				req.user.id,
+				req.headers.authorization
+			);
+			const priceChanges = this.liveCart
+				? priceSnapshotStore.changesFor(req.user.id, lines)
+				: [];
+			const totals = calculateCartTotals(
+				req.user.id,
+				lines,
+				province,
+				this.liveCart
+			);
+			// Lines whose inventory lookup failed are left out of the totals
+			// and reported individually.
+			res.status(200).json({
+				...totals,
+				...(rate && {
+					display: currencyConverter.toDisplay(totals, rate),
+				}),
+				...(priceChanges.length > 0 && { price_changes: priceChanges }),
+				...(failures.length > 0 && {
+					line_errors: failures.map(
+						({ error, ...failure }) => failure
+					),
+				}),
+			});
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error calculating cart total");
+		}
+	}
+
+	async applyPromoCode(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		const promotion = promotionCatalog.find(req.body.code);
+		if (!promotion) {
+			res.status(404).json({
+				message: "Promo code not found",
+				code: "PROMO_NOT_FOUND",
+			});
+			return;
+		}
+		try {
+			const { lines, failures } = await this.fetchPricedLines(
+				req.user.id,
+				req.headers.authorization
+			);
+			if (failures.length > 0) throw failures[0].error;
+			const evaluation = evaluatePromotion(promotion, lines, {
+				usageCount: promoStore.usageCount(req.user.id, promotion.code),
+			});
+			if (!evaluation.eligible) {
+				res.status(422).json({
+					message: evaluation.message,
+					code: evaluation.code,
+				});
+				return;
+			}
+			promoStore.apply(req.user.id, promotion.code);
+			cartActivityStore.touch(req.user.id);
+			res.status(200).json(calculateCartTotals(req.user.id, lines));
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error applying promo code");
+		}
+	}
+
+	async removePromoCode(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		if (!promoStore.remove(req.user.id)) {
+			res.status(404).json({ message: "No promo code applied" });
+			return;
+		}
+		cartActivityStore.touch(req.user.id);
+		res.status(200).json({ message: "Promo code removed" });
+	}
+
+	async validateCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		try {
+			const { validation } = await this.cartValidation.validate(
+				req.user.id,
+				req.headers.authorization
+			);
+			res.status(200).json(validation);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error validating cart");
+		}
+	}
+
+	async fixCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		try {
+			const { validation } = await this.cartValidation.validate(
+				req.user.id,
+				req.headers.authorization
+			);
+			const fixes = await this.cartValidation.applyFixes(
+				req.user.id,
+				validation,
+				req.headers.authorization
+			);
+			res.status(200).json({ ...validation, fixes });
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error fixing cart");
+		}
+	}
+
+	async acknowledgePriceChanges(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		try {
+			const { lines, failures } = await this.fetchPricedLines(
+				req.user.id,
+				req.headers.authorization
+			);
+			if (failures.length > 0) throw failures[0].error;
+			const only: number[] | undefined = req.body.inventory_ids?.map(
+				(id: string | number) => Number(id)
+			);
+			const acknowledged = priceSnapshotStore
+				.changesFor(req.user.id, lines)
+				.filter(
+					(change) => !only || only.includes(change.inventory_id)
+				);
+			for (const change of acknowledged) {
+				priceSnapshotStore.record(
+					req.user.id,
+					change.inventory_id,
+					change.new_price
 				);
-				total += inventoryResponse.data.price * item.quantity;
 			}
-			res.status(200).json({ total });
+			res.status(200).json({ acknowledged });
 		} catch (error: any) {
-			console.error(
-				"Error calculating cart total:",
-				error.response?.data || error.message
-			);
-			res.status(error.response?.status || 500).json({
-				message:
-					error.response?.data?.message ||
-					"Error calculating cart total",
-				error: error.response?.data?.errors || error.message,
+			sendUpstreamError(res, error, "Error acknowledging price changes");
+		}
+	}
+
+	async checkout(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		const province = (
+			(req.body.province as string | undefined) ?? config.defaultProvince
+		).toUpperCase();
+		if (!taxCalculator.supports(province)) {
+			res.status(400).json({
+				message: `Unsupported province: ${province}`,
+				code: "UNSUPPORTED_PROVINCE",
 			});
+			return;
 		}
+
+		try {
+			const result = await this.checkoutService.checkout({
+				user: req.user,
+				province,
+				expectedTotal:
+					req.body.expected_total === undefined
+						? undefined
+						: parseFloat(req.body.expected_total),
+				authorization: req.headers.authorization,
+			});
+			if (!result.placed) {
+				const { placed, ...body } = result;
+				res.status(result.code === "CART_EMPTY" ? 400 : 409).json(body);
+				return;
+			}
+			res.status(201).json({ ...result.order, ...result.snapshot });
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error checking out");
+		}
+	}
+
+	private async fetchPricedLines(
+		userId: number,
+		authorization?: string
+	): Promise<{ lines: PricedLine[]; failures: InventoryFailure[] }> {
+		const items = await this.brewery.getCart(userId, authorization);
+		return this.priceLines(items, authorization);
+	}
+
+	private async priceLines(
+		items: CartItem[],
+		authorization?: string
+	): Promise<{ lines: PricedLine[]; failures: InventoryFailure[] }> {
+		const { items: inventory, failures } = await this.inventoryLoader.load(
+			items.map((item) => item.inventory_id),
+			authorization
+		);
+		const lines: PricedLine[] = [];
+		for (const item of items) {
+			const data = inventory.get(item.inventory_id.toString());
+			if (data) lines.push(toPricedLine(item, data));
+		}
+		return { lines, failures };
+	}
+
+	// For callers that can't act on a partial cart: surfaces the first
+	// failed lookup the same way a direct upstream call would.
+	private async priceAllLines(
+		items: CartItem[],
+		authorization?: string
+	): Promise<PricedLine[]> {
+		const { lines, failures } = await this.priceLines(items, authorization);
+		if (failures.length > 0) throw failures[0].error;
+		return lines;
 	}
 }
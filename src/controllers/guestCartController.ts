@@ -0,0 +1,245 @@
+import { Response, NextFunction } from "express";
+import { validationResult } from "express-validator";
+import { config } from "../config/config";
+import { GuestRequest, issueGuestToken } from "../middleware/guest";
+import { breweryApiClient } from "../ports/brewery";
+import { BreweryApiClient, CartItem } from "../ports/brewery/breweryApiClient";
+import { CartMutationService } from "../services/cartMutations";
+import { guestCartStore } from "../services/guestCartStore";
+import { InventoryLoader } from "../services/inventoryLoader";
+import { reservationStore } from "../services/reservations/reservationStore";
+import { sendUpstreamError } from "./upstreamError";
+
+export class GuestCartController {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async createGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!config.jwtSecret) {
+			res.status(500).json({ message: "JWT secret is not defined" });
+			return;
+		}
+		const { token } = issueGuestToken();
+		res.status(201).json({
+			guest_token: token,
+			expires_in: config.guestCartTtlSeconds,
+		});
+	}
+
+	async getGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.guest) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		res.status(200).json(guestCartStore.getItems(req.guest.id));
+	}
+
+	async addToGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.guest) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		const inventoryId = parseInt(req.body.inventory_id, 10);
+		const quantity =
+			(guestCartStore.getItem(req.guest.id, inventoryId)?.quantity ?? 0) +
+			parseInt(req.body.quantity, 10);
+		try {
+			const inventory =
+				await this.inventoryLoader.fetchFresh(inventoryId);
+			const available = reservationStore.availableStock(
+				inventoryId,
+				inventory.stockQuantity
+			);
+			if (available < quantity) {
+				res.status(400).json({ message: "Insufficient stock" });
+				return;
+			}
+			const item = guestCartStore.setQuantity(
+				req.guest.id,
+				inventoryId,
+				quantity
+			);
+			res.status(201).json(item);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error adding to guest cart");
+		}
+	}
+
+	async updateGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.guest) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		const inventoryId = parseInt(req.params.inventory_id, 10);
+		if (!guestCartStore.getItem(req.guest.id, inventoryId)) {
+			res.status(404).json({ message: "Item not in guest cart" });
+			return;
+		}
+		try {
+			const inventory =
+				await this.inventoryLoader.fetchFresh(inventoryId);
+			const available = reservationStore.availableStock(
+				inventoryId,
+				inventory.stockQuantity
+			);
+			if (available < req.body.quantity) {
+				res.status(400).json({ message: "Insufficient stock" });
+				return;
+			}
+			const item = guestCartStore.setQuantity(
+				req.guest.id,
+				inventoryId,
+				parseInt(req.body.quantity, 10)
+			);
+			res.status(200).json(item);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error updating guest cart");
+		}
+	}
+
+	async removeFromGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.guest) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		const removed = guestCartStore.remove(
+			req.guest.id,
+			parseInt(req.params.inventory_id, 10)
+		);
+		if (!removed) {
+			res.status(404).json({ message: "Item not in guest cart" });
+			return;
+		}
+		res.status(200).json({ message: "Item removed" });
+	}
+
+	async mergeGuestCart(
+		req: GuestRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.user || !req.guest) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		const userId = req.user.id;
+		const authorization = req.headers.authorization;
+		try {
+			const userItems = await this.brewery.getCart(userId, authorization);
+			const adjustments = [];
+			for (const guestItem of guestCartStore.getItems(req.guest.id)) {
+				const existing = userItems.find(
+					(item) =>
+						item.inventory_id.toString() ===
+						guestItem.inventory_id.toString()
+				);
+				const existingQuantity = existing?.quantity ?? 0;
+				const requested = existingQuantity + guestItem.quantity;
+				const inventory = await this.inventoryLoader.fetchFresh(
+					guestItem.inventory_id,
+					authorization
+				);
+				const quantity = Math.min(
+					requested,
+					reservationStore.availableStock(
+						guestItem.inventory_id,
+						inventory.stockQuantity,
+						userId
+					)
+				);
+				const clamped = {
+					inventory_id: guestItem.inventory_id,
+					requested,
+					quantity,
+					message: "Insufficient stock",
+				};
+				if (quantity <= existingQuantity) {
+					if (quantity < requested) adjustments.push(clamped);
+					continue;
+				}
+				// The clamped quantity then goes through the same checks as
+				// POST /add: age gate, stock and purchase limits.
+				const plan = await this.cartMutations.planAdd(
+					req.user,
+					{
+						inventory_id: guestItem.inventory_id,
+						quantity,
+						mode: "replace",
+					},
+					inventory,
+					userItems,
+					authorization
+				);
+				if ("rejection" in plan) {
+					adjustments.push({
+						inventory_id: guestItem.inventory_id,
+						requested,
+						quantity: existingQuantity,
+						...plan.rejection.body,
+					});
+					continue;
+				}
+				if (quantity < requested) adjustments.push(clamped);
+				const written = (await this.cartMutations.write(
+					plan.change,
+					authorization
+				)) as CartItem;
+				this.cartMutations.commit(plan.change, written);
+				// Drop each line as soon as it lands, so a retry after a
+				// failed write doesn't add it to the user's cart twice.
+				guestCartStore.remove(req.guest.id, guestItem.inventory_id);
+				if (existing) {
+					existing.quantity = quantity;
+				} else {
+					userItems.push(written);
+				}
+			}
+			guestCartStore.clear(req.guest.id);
+			const items = await this.brewery.getCart(userId, authorization);
+			res.status(200).json({ items, adjustments });
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error merging guest cart");
+		}
+	}
+}
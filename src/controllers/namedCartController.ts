@@ -0,0 +1,255 @@
+import { Response, NextFunction } from "express";
+import { validationResult } from "express-validator";
+import { config } from "../config/config";
+import { AuthRequest } from "../middleware/auth";
+import { breweryApiClient } from "../ports/brewery";
+import { BreweryApiClient } from "../ports/brewery/breweryApiClient";
+import { NamedCartBreweryApiClient } from "../ports/brewery/namedCartBreweryApiClient";
+import { CartMutationService } from "../services/cartMutations";
+import { InventoryLoader } from "../services/inventoryLoader";
+import {
+	DEFAULT_CART_ID,
+	NamedCart,
+	namedCartStore,
+} from "../services/namedCartStore";
+import { CartController } from "./cartController";
+
+const defaultCartError = {
+	message: "The default cart can't be renamed or deleted",
+	code: "DEFAULT_CART",
+};
+
+export class NamedCartController {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly defaultCart: CartController = new CartController(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async listCarts(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (req.user?.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		const selected = namedCartStore.selectedCartId(req.user.id);
+		res.status(200).json([
+			{
+				id: DEFAULT_CART_ID,
+				name: "Default",
+				selected: selected === DEFAULT_CART_ID,
+			},
+			...namedCartStore.list(req.user.id).map((cart) => ({
+				...cart,
+				selected: selected === cart.id,
+			})),
+		]);
+	}
+
+	async createCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (req.user?.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		if (namedCartStore.findByName(req.user.id, req.body.name)) {
+			res.status(409).json({
+				message: "A cart with that name already exists",
+				code: "CART_NAME_TAKEN",
+			});
+			return;
+		}
+		if (namedCartStore.list(req.user.id).length >= config.maxNamedCarts) {
+			res.status(422).json({
+				message: `No more than ${config.maxNamedCarts} named carts are allowed`,
+				code: "CART_LIMIT_REACHED",
+			});
+			return;
+		}
+		const cart = namedCartStore.create(req.user.id, req.body.name);
+		res.status(201).json({ ...cart, selected: false });
+	}
+
+	async renameCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		const cart = this.namedCartFor(req, res);
+		if (!cart) return;
+		const taken = namedCartStore.findByName(cart.user_id, req.body.name);
+		if (taken && taken.id !== cart.id) {
+			res.status(409).json({
+				message: "A cart with that name already exists",
+				code: "CART_NAME_TAKEN",
+			});
+			return;
+		}
+		const renamed = namedCartStore.rename(
+			cart.user_id,
+			cart.id,
+			req.body.name
+		)!;
+		res.status(200).json({
+			...renamed,
+			selected: namedCartStore.selectedCartId(cart.user_id) === cart.id,
+		});
+	}
+
+	async deleteCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const cart = this.namedCartFor(req, res);
+		if (!cart) return;
+		namedCartStore.delete(cart.user_id, cart.id);
+		res.status(200).json({ message: "Cart deleted" });
+	}
+
+	async selectCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const target = this.cartFor(req, res);
+		if (!target) return;
+		const userId = req.user!.id;
+		namedCartStore.select(userId, target.cartId);
+		res.status(200).json({
+			...(namedCartStore.get(userId, target.cartId) ?? {
+				id: DEFAULT_CART_ID,
+				name: "Default",
+			}),
+			selected: true,
+		});
+	}
+
+	async getCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		await this.cartFor(req, res)?.controller.getCart(req, res, next);
+	}
+
+	async addToCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const target = this.cartFor(req, res);
+		if (!target) return;
+		req.body.user_id = req.params.user_id;
+		await target.controller.addToCart(req, res, next);
+	}
+
+	async updateCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		await this.cartFor(req, res)?.controller.updateCart(req, res, next);
+	}
+
+	async removeFromCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		await this.cartFor(req, res)?.controller.removeFromCart(req, res, next);
+	}
+
+	async clearCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const target = this.cartFor(req, res);
+		if (!target) return;
+		if (target.cartId === DEFAULT_CART_ID) {
+			await target.controller.clearCart(req, res, next);
+			return;
+		}
+		// Named carts hold no stock, so there is nothing else to release.
+		namedCartStore.clearLines(target.cartId);
+		res.status(200).json({ message: "Cart cleared successfully" });
+	}
+
+	async getCartTotal(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		await this.cartFor(req, res)?.controller.getCartTotal(req, res, next);
+	}
+
+	// Resolves `:cart_id` (`current` meaning the selected cart) to the cart
+	// routes for it, or answers the request when it isn't the user's cart.
+	private cartFor(
+		req: AuthRequest,
+		res: Response
+	): { cartId: string; controller: CartController } | undefined {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return undefined;
+		}
+		const cartId =
+			req.params.cart_id === "current"
+				? namedCartStore.selectedCartId(req.user.id)
+				: req.params.cart_id;
+		if (cartId === DEFAULT_CART_ID) {
+			return { cartId, controller: this.defaultCart };
+		}
+		if (!namedCartStore.get(req.user.id, cartId)) {
+			res.status(404).json({ message: "Cart not found" });
+			return undefined;
+		}
+		const client = new NamedCartBreweryApiClient(cartId, this.brewery);
+		return {
+			cartId,
+			controller: new CartController(
+				client,
+				this.inventoryLoader,
+				undefined,
+				undefined,
+				new CartMutationService(client, this.inventoryLoader, false),
+				false
+			),
+		};
+	}
+
+	private namedCartFor(
+		req: AuthRequest,
+		res: Response
+	): NamedCart | undefined {
+		const target = this.cartFor(req, res);
+		if (!target) return undefined;
+		if (target.cartId === DEFAULT_CART_ID) {
+			res.status(400).json(defaultCartError);
+			return undefined;
+		}
+		return namedCartStore.get(req.user!.id, target.cartId);
+	}
+}
@@ -0,0 +1,144 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { breweryApiClient } from "../ports/brewery";
+import { BreweryApiClient } from "../ports/brewery/breweryApiClient";
+import { CartMutationService } from "../services/cartMutations";
+import { stockStatusOf } from "../services/cartView";
+import { InventoryLoader } from "../services/inventoryLoader";
+import { reservationStore } from "../services/reservations/reservationStore";
+import { savedItemStore } from "../services/savedItemStore";
+import { sendUpstreamError } from "./upstreamError";
+
+export class SavedItemsController {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async saveForLater(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		try {
+			const id = parseInt(req.params.id, 10);
+			const cartItem = await this.brewery.getCartItem(
+				id,
+				req.headers.authorization
+			);
+			if (req.user?.id.toString() !== cartItem.user_id.toString()) {
+				res.status(403).json({ message: "Unauthorized" });
+				return;
+			}
+			const { change } = this.cartMutations.planRemove({
+				...cartItem,
+				id,
+			});
+			await this.cartMutations.write(change, req.headers.authorization);
+			this.cartMutations.commit(change);
+			const saved = savedItemStore.save(
+				Number(cartItem.user_id),
+				Number(cartItem.inventory_id),
+				Number(cartItem.quantity)
+			);
+			res.status(201).json(saved);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error saving item for later");
+		}
+	}
+
+	async getSavedItems(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (req.user?.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+
+		const userId = req.user.id;
+		const items = savedItemStore.list(userId);
+		const { items: inventory, failures } = await this.inventoryLoader.load(
+			items.map((item) => item.inventory_id),
+			req.headers.authorization
+		);
+		res.status(200).json({
+			items: items.map((item) => {
+				const data = inventory.get(item.inventory_id.toString());
+				if (!data) return item;
+				const available = reservationStore.availableStock(
+					item.inventory_id,
+					data.stockQuantity,
+					userId
+				);
+				return {
+					...item,
+					name: data.name,
+					unit_price: data.price,
+					image_url: data.imageUrl,
+					available: Math.max(0, available),
+					stock_status: stockStatusOf(available, item.quantity),
+				};
+			}),
+			...(failures.length > 0 && {
+				line_errors: failures.map(({ error, ...failure }) => failure),
+			}),
+		});
+	}
+
+	async moveToCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!req.user || req.user.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		const saved = savedItemStore.get(
+			req.user.id,
+			parseInt(req.params.id, 10)
+		);
+		if (!saved) {
+			res.status(404).json({ message: "Saved item not found" });
+			return;
+		}
+
+		try {
+			const inventory = await this.inventoryLoader.fetchFresh(
+				saved.inventory_id,
+				req.headers.authorization
+			);
+			const plan = await this.cartMutations.planAdd(
+				req.user,
+				saved,
+				inventory,
+				undefined,
+				req.headers.authorization
+			);
+			// A rejected move leaves the item on the list.
+			if ("rejection" in plan) {
+				res.status(plan.rejection.status).json(plan.rejection.body);
+				return;
+			}
+			const cartItem = await this.cartMutations.write(
+				plan.change,
+				req.headers.authorization
+			);
+			this.cartMutations.commit(plan.change, cartItem);
+			savedItemStore.remove(req.user.id, saved.id);
+			res.status(plan.change.lineId === undefined ? 201 : 200).json(
+				cartItem
+			);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error moving item to cart");
+		}
+	}
+}
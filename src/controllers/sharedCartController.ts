@@ -0,0 +1,198 @@
+import { Request, Response, NextFunction } from "express";
+import { validationResult } from "express-validator";
+import { config } from "../config/config";
+import { AuthRequest } from "../middleware/auth";
+import { breweryApiClient } from "../ports/brewery";
+import { BreweryApiClient, CartItem } from "../ports/brewery/breweryApiClient";
+import { NamedCartBreweryApiClient } from "../ports/brewery/namedCartBreweryApiClient";
+import { CartMutationService } from "../services/cartMutations";
+import { EnrichedCartLine, buildCartView } from "../services/cartView";
+import { InventoryLoader } from "../services/inventoryLoader";
+import { DEFAULT_CART_ID, namedCartStore } from "../services/namedCartStore";
+import {
+	SharedCart,
+	decodeShareToken,
+	issueShareToken,
+} from "../services/shareLinks";
+import { sendUpstreamError } from "./upstreamError";
+
+// Viewers see what is in the cart, not who owns it or what it cost them.
+const toSharedLine = (line: EnrichedCartLine | CartItem) => {
+	const { user_id, price_change, ...shared } = line as EnrichedCartLine;
+	return shared;
+};
+
+export class SharedCartController {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async createShareLink(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (req.user?.id.toString() !== req.params.user_id) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		if (!config.jwtSecret) {
+			res.status(500).json({ message: "JWT secret is not defined" });
+			return;
+		}
+
+		const cartId: string = req.body.cart_id ?? DEFAULT_CART_ID;
+		if (
+			cartId !== DEFAULT_CART_ID &&
+			!namedCartStore.get(req.user.id, cartId)
+		) {
+			res.status(404).json({ message: "Cart not found" });
+			return;
+		}
+		const expiresIn = Math.min(
+			parseInt(req.body.expires_in ?? config.shareLinkTtlSeconds, 10),
+			config.shareLinkTtlSeconds
+		);
+		const { token, expiresAt } = issueShareToken(
+			req.user.id,
+			cartId,
+			expiresIn
+		);
+		res.status(201).json({
+			share_token: token,
+			cart_id: cartId,
+			expires_in: expiresIn,
+			expires_at: expiresAt,
+		});
+	}
+
+	async getSharedCart(
+		req: Request,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const shared = this.sharedCartFor(req, res);
+		if (!shared) return;
+
+		try {
+			// There is no user token here; the Brewery API client falls back
+			// to the service token.
+			const items = await this.cartClientFor(shared).getCart(
+				shared.userId
+			);
+			const { items: inventory, failures } =
+				await this.inventoryLoader.load(
+					items.map((item) => item.inventory_id)
+				);
+			const view = buildCartView(shared.userId, items, inventory);
+			res.status(200).json({
+				...view,
+				items: view.items.map(toSharedLine),
+				expires_at: shared.expiresAt,
+				...(failures.length > 0 && {
+					line_errors: failures.map(
+						({ error, ...failure }) => failure
+					),
+				}),
+			});
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error fetching shared cart");
+		}
+	}
+
+	async importSharedCart(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+		if (!req.user) {
+			res.status(403).json({ message: "Unauthorized" });
+			return;
+		}
+		const shared = this.sharedCartFor(req, res);
+		if (!shared) return;
+		if (
+			shared.userId === req.user.id &&
+			shared.cartId === DEFAULT_CART_ID
+		) {
+			res.status(400).json({
+				message: "A cart can't be imported into itself",
+				code: "SHARE_SELF_IMPORT",
+			});
+			return;
+		}
+
+		try {
+			// The importer's token can't read the owner's cart, so this read
+			// goes out with the service token.
+			const items = await this.cartClientFor(shared).getCart(
+				shared.userId
+			);
+			// Each line goes through the same checks as POST /add.
+			const outcome = await this.cartMutations.batch(
+				req.user,
+				items.map((item) => ({
+					op: "add",
+					inventory_id: Number(item.inventory_id),
+					quantity: item.quantity,
+				})),
+				req.body.mode ?? "best_effort",
+				req.headers.authorization
+			);
+			if (outcome.mode === "all_or_nothing" && !outcome.applied) {
+				res.status(422).json({
+					message: "Import rejected",
+					code: "BATCH_REJECTED",
+					...outcome,
+				});
+				return;
+			}
+			res.status(200).json(outcome);
+		} catch (error: any) {
+			sendUpstreamError(res, error, "Error importing shared cart");
+		}
+	}
+
+	private sharedCartFor(req: Request, res: Response): SharedCart | undefined {
+		if (!config.jwtSecret) {
+			res.status(500).json({ message: "JWT secret is not defined" });
+			return undefined;
+		}
+		const shared = decodeShareToken(req.params.token);
+		if (
+			!shared ||
+			(shared.cartId !== DEFAULT_CART_ID &&
+				!namedCartStore.get(shared.userId, shared.cartId))
+		) {
+			res.status(404).json({
+				message: "Share link is invalid or has expired",
+				code: "SHARE_LINK_INVALID",
+			});
+			return undefined;
+		}
+		return shared;
+	}
+
+	private cartClientFor(shared: SharedCart): BreweryApiClient {
+		return shared.cartId === DEFAULT_CART_ID
+			? this.brewery
+			: new NamedCartBreweryApiClient(shared.cartId, this.brewery);
+	}
+}
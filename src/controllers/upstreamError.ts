@@ -0,0 +1,17 @@
+import { Response } from "express";
+import { CircuitOpenError } from "../ports/http/upstreamClient";
+
+export const sendUpstreamError = (
+	res: Response,
+	error: any,
+	message: string
+): void => {
+	console.error(`${message}:`, error.response?.data || error.message);
+	if (error instanceof CircuitOpenError) {
+		res.set("Retry-After", error.retryAfterSeconds.toString());
+	}
+	res.status(error.response?.status || 500).json({
+		message: error.response?.data?.message || message,
+		error: error.response?.data?.errors || error.message,
+	});
+};
@@ -0,0 +1,152 @@
+import { Response, NextFunction } from "express";
+import { validationResult } from "express-validator";
+import { config } from "../config/config";
+import { AuthRequest } from "../middleware/auth";
+import {
+	WebhookDeliveryStore,
+	webhookDeliveryStore,
+} from "../services/webhooks/webhookDeliveryStore";
+import {
+	WEBHOOK_EVENT_TYPES,
+	WebhookSubscription,
+	WebhookSubscriptionStore,
+	webhookSubscriptionStore,
+} from "../services/webhooks/webhookSubscriptionStore";
+
+// Secrets are only shown when they are created or rotated.
+const toView = ({ secret, previous_secret, ...view }: WebhookSubscription) =>
+	view;
+
+export class WebhookController {
+	constructor(
+		private readonly subscriptions: WebhookSubscriptionStore = webhookSubscriptionStore,
+		private readonly deliveries: WebhookDeliveryStore = webhookDeliveryStore
+	) {}
+
+	async listWebhooks(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		res.status(200).json(this.subscriptions.list().map(toView));
+	}
+
+	async createWebhook(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+
+		const subscription = this.subscriptions.create(
+			req.body.url,
+			req.body.event_types ?? WEBHOOK_EVENT_TYPES
+		);
+		res.status(201).json({
+			...toView(subscription),
+			secret: subscription.secret,
+		});
+	}
+
+	async updateWebhook(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const errors = validationResult(req);
+		if (!errors.isEmpty()) {
+			res.status(400).json({ errors: errors.array() });
+			return;
+		}
+
+		const subscription = this.subscriptions.update(req.params.id, {
+			url: req.body.url,
+			event_types: req.body.event_types,
+		});
+		if (!subscription) {
+			res.status(404).json({ message: "Webhook not found" });
+			return;
+		}
+		res.status(200).json(toView(subscription));
+	}
+
+	async deleteWebhook(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!this.subscriptions.delete(req.params.id)) {
+			res.status(404).json({ message: "Webhook not found" });
+			return;
+		}
+		this.deliveries.removeForSubscription(req.params.id);
+		res.status(200).json({ message: "Webhook deleted" });
+	}
+
+	async rotateWebhookSecret(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const subscription = this.subscriptions.rotateSecret(
+			req.params.id,
+			config.webhookSecretGraceSeconds
+		);
+		if (!subscription) {
+			res.status(404).json({ message: "Webhook not found" });
+			return;
+		}
+		res.status(200).json({
+			...toView(subscription),
+			secret: subscription.secret,
+		});
+	}
+
+	async listDeadLetters(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!this.subscriptions.get(req.params.id)) {
+			res.status(404).json({ message: "Webhook not found" });
+			return;
+		}
+		res.status(200).json(this.deliveries.deadLetters(req.params.id));
+	}
+
+	async replayDeadLetter(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		const delivery = this.deliveries.get(req.params.delivery_id);
+		const replayed =
+			delivery?.subscription_id === req.params.id
+				? this.deliveries.replay(delivery.id)
+				: undefined;
+		if (!replayed) {
+			res.status(404).json({ message: "Dead letter not found" });
+			return;
+		}
+		res.status(202).json(replayed);
+	}
+
+	async replayDeadLetters(
+		req: AuthRequest,
+		res: Response,
+		next: NextFunction
+	): Promise<void> {
+		if (!this.subscriptions.get(req.params.id)) {
+			res.status(404).json({ message: "Webhook not found" });
+			return;
+		}
+		const replayed = this.deliveries
+			.deadLetters(req.params.id)
+			.filter((delivery) => this.deliveries.replay(delivery.id));
+		res.status(202).json({ replayed: replayed.length });
+	}
+}
@@ -1,7 +1,13 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv-safe";
+import adminRoutes from "./ports/rest/routes/admin";
 import cartRoutes from "./ports/rest/routes/cart";
+import guestCartRoutes from "./ports/rest/routes/guestCart";
+import { abandonedCartSweeper } from "./services/abandonment/abandonedCartSweeper";
+import { outboxRelay } from "./services/outbox/outboxRelay";
+import { webhookDispatcher } from "./services/webhooks/webhookDispatcher";
+import { reservationStore } from "./services/reservations/reservationStore";
 
 const app = express();
 app.use(cors());
@@ -19,7 +25,14 @@ app.use("/healthcheck", (req, res) => {
 	res.status(200).send("The Cart Service is ALIVE!");
 });
 
+app.use("/cart/guest", guestCartRoutes);
 app.use("/cart", cartRoutes);
+app.use("/admin", adminRoutes);
+
+reservationStore.startSweeper();
+abandonedCartSweeper.start();
+outboxRelay.start();
+webhookDispatcher.start();
 
 app.listen(port, () => {
 	console.log(`Server is running on port ${port}`);
@@ -0,0 +1,105 @@
+import { Response } from "express";
+import { EventEmitter } from "events";
+import { AuthRequest } from "../auth";
+import { idempotent } from "../idempotency";
+
+describe("idempotent", () => {
+	let key: string;
+	let mockNext: jest.Mock;
+
+	const makeRequest = (body: unknown, idempotencyKey?: string) =>
+		({
+			method: "POST",
+			originalUrl: "/cart/add",
+			body,
+			user: { id: 1, email: "test@example.com" },
+			header: (name: string) =>
+				name === "Idempotency-Key" ? idempotencyKey : undefined,
+		}) as unknown as AuthRequest;
+
+	const makeResponse = () => {
+		const res = Object.assign(new EventEmitter(), {
+			statusCode: 200,
+			set: jest.fn(),
+			json: jest.fn(),
+		}) as any;
+		res.status = jest.fn((code: number) => {
+			res.statusCode = code;
+			return res;
+		});
+		return res;
+	};
+
+	beforeEach(() => {
+		key = `key-${Math.random()}`;
+		mockNext = jest.fn();
+	});
+
+	// Test requests without the header pass straight through
+	it("should call next when no key is sent", () => {
+		idempotent(makeRequest({}), makeResponse() as Response, mockNext);
+
+		expect(mockNext).toHaveBeenCalled();
+	});
+
+	// Test replaying the first response
+	it("should replay the stored response for a duplicate request", () => {
+		const first = makeResponse();
+		idempotent(makeRequest({ quantity: 2 }, key), first, mockNext);
+		first.status(201).json({ id: 9 });
+
+		const second = makeResponse();
+		idempotent(makeRequest({ quantity: 2 }, key), second, mockNext);
+
+		expect(mockNext).toHaveBeenCalledTimes(1);
+		expect(second.set).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+		expect(second.status).toHaveBeenCalledWith(201);
+		expect(second.json).toHaveBeenCalledWith({ id: 9 });
+	});
+
+	// Test reusing a key for another payload
+	it("should return 422 when the key is reused with a different payload", () => {
+		const first = makeResponse();
+		idempotent(makeRequest({ quantity: 2 }, key), first, mockNext);
+		first.status(201).json({ id: 9 });
+
+		const second = makeResponse();
+		idempotent(makeRequest({ quantity: 3 }, key), second, mockNext);
+
+		expect(second.status).toHaveBeenCalledWith(422);
+		expect(second.json).toHaveBeenCalledWith(
+			expect.objectContaining({ code: "IDEMPOTENCY_KEY_REUSED" })
+		);
+	});
+
+	// Test a duplicate arriving before the first finishes
+	it("should return 409 while the first request is in progress", () => {
+		idempotent(makeRequest({}, key), makeResponse(), mockNext);
+
+		const second = makeResponse();
+		idempotent(makeRequest({}, key), second, mockNext);
+
+		expect(second.status).toHaveBeenCalledWith(409);
+	});
+
+	// Test server errors are not stored
+	it("should let the client retry after a server error", () => {
+		const first = makeResponse();
+		idempotent(makeRequest({}, key), first, mockNext);
+		first.status(502).json({ message: "Bad Gateway" });
+		first.emit("close");
+
+		idempotent(makeRequest({}, key), makeResponse(), mockNext);
+
+		expect(mockNext).toHaveBeenCalledTimes(2);
+	});
+
+	// Test oversized keys
+	it("should return 400 for an invalid key", () => {
+		const res = makeResponse();
+		idempotent(makeRequest({}, "x".repeat(256)), res, mockNext);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(mockNext).not.toHaveBeenCalled();
+	});
+});
@@ -1,9 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { config } from "../config/config";
+import { SHARE_TOKEN_TYPE } from "../services/shareLinks";
 
 export interface AuthRequest extends Request {
-	user?: { id: number; email: string };
+	user?: {
+		id: number;
+		email: string;
+		birthdate?: string;
+		ageVerified?: boolean;
+		role?: string;
+	};
 }
 
 export const verifyToken = (
@@ -24,10 +31,44 @@ export const verifyToken = (
 		const decoded = jwt.verify(token, config.jwtSecret) as {
 			sub: string;
 			email: string;
+			type?: string;
+			birthdate?: string;
+			age_verified?: boolean;
+			role?: string;
+		};
+		if (decoded.type === "guest") {
+			res.status(401).json({
+				message: "Guest tokens cannot access user carts",
+			});
+			return;
+		}
+		if (decoded.type === SHARE_TOKEN_TYPE) {
+			res.status(401).json({
+				message: "Share tokens cannot access user carts",
+			});
+			return;
+		}
+		req.user = {
+			id: parseInt(decoded.sub, 10),
+			email: decoded.email,
+			birthdate: decoded.birthdate,
+			ageVerified: decoded.age_verified,
+			role: decoded.role,
 		};
-		req.user = { id: parseInt(decoded.sub, 10), email: decoded.email };
 		next();
 	} catch (error) {
 		res.status(401).json({ message: "Invalid or expired token" });
 	}
 };
+
+export const requireAdmin = (
+	req: AuthRequest,
+	res: Response,
+	next: NextFunction
+): void => {
+	if (req.user?.role !== "admin") {
+		res.status(403).json({ message: "Admin access required" });
+		return;
+	}
+	next();
+};
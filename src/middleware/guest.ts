@@ -0,0 +1,57 @@
+import { Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { config } from "../config/config";
+import { AuthRequest } from "./auth";
+
+export interface GuestRequest extends AuthRequest {
+	guest?: { id: string };
+}
+
+export const issueGuestToken = (): { guestId: string; token: string } => {
+	const guestId = randomUUID();
+	const token = jwt.sign({ sub: guestId, type: "guest" }, config.jwtSecret, {
+		expiresIn: config.guestCartTtlSeconds,
+	});
+	return { guestId, token };
+};
+
+export const decodeGuestToken = (token: string): string | null => {
+	try {
+		const decoded = jwt.verify(token, config.jwtSecret) as {
+			sub: string;
+			type?: string;
+		};
+		return decoded.type === "guest" ? decoded.sub : null;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Guest routes carry the guest token as the bearer token, while the merge
+// route carries the user's bearer token and the guest token in X-Guest-Token.
+export const verifyGuestToken = (
+	req: GuestRequest,
+	res: Response,
+	next: NextFunction
+): void => {
+	const header = req.headers["x-guest-token"];
+	const token =
+		(Array.isArray(header) ? header[0] : header) ??
+		req.headers.authorization?.split(" ")[1];
+	if (!token) {
+		res.status(401).json({ message: "No guest token provided" });
+		return;
+	}
+	if (!config.jwtSecret) {
+		res.status(500).json({ message: "JWT secret is not defined" });
+		return;
+	}
+	const guestId = decodeGuestToken(token);
+	if (!guestId) {
+		res.status(401).json({ message: "Invalid or expired guest token" });
+		return;
+	}
+	req.guest = { id: guestId };
+	next();
+};
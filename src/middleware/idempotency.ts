@@ -0,0 +1,68 @@
+import { Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { AuthRequest } from "./auth";
+import { idempotencyStore } from "../services/idempotencyStore";
+
+const MAX_KEY_LENGTH = 255;
+
+const fingerprintOf = (req: AuthRequest): string =>
+	createHash("sha256")
+		.update(JSON.stringify([req.method, req.originalUrl, req.body ?? null]))
+		.digest("hex");
+
+// Replays the first response for a repeated Idempotency-Key. Runs after
+// verifyToken so keys are scoped to the signed-in user. Server errors are
+// not stored, so the client can retry them with the same key.
+export const idempotent = (
+	req: AuthRequest,
+	res: Response,
+	next: NextFunction
+): void => {
+	const key = req.header("Idempotency-Key");
+	if (key === undefined || !req.user) {
+		next();
+		return;
+	}
+	if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+		res.status(400).json({
+			message: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+			code: "IDEMPOTENCY_KEY_INVALID",
+		});
+		return;
+	}
+
+	const scope = req.user.id.toString();
+	const lookup = idempotencyStore.begin(scope, key, fingerprintOf(req));
+	if (lookup.state === "mismatch") {
+		res.status(422).json({
+			message: "Idempotency-Key was already used for a different request",
+			code: "IDEMPOTENCY_KEY_REUSED",
+		});
+		return;
+	}
+	if (lookup.state === "in_progress") {
+		res.status(409).json({
+			message: "A request with this Idempotency-Key is still in progress",
+			code: "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+		});
+		return;
+	}
+	if (lookup.state === "replay") {
+		res.set("Idempotent-Replayed", "true");
+		res.status(lookup.response.status).json(lookup.response.body);
+		return;
+	}
+
+	const json = res.json.bind(res);
+	res.json = (body?: any) => {
+		if (res.statusCode < 500) {
+			idempotencyStore.complete(scope, key, {
+				status: res.statusCode,
+				body,
+			});
+		}
+		return json(body);
+	};
+	res.on("close", () => idempotencyStore.abandon(scope, key));
+	next();
+};
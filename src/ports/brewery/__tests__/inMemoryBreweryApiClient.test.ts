@@ -0,0 +1,80 @@
+import { InMemoryBreweryApiClient } from "../inMemoryBreweryApiClient";
+
+describe("InMemoryBreweryApiClient", () => {
+	let client: InMemoryBreweryApiClient;
+
+	beforeEach(() => {
+		client = new InMemoryBreweryApiClient([
+			{ id: 1, price: 4, stockQuantity: 10, category: "beer" },
+			{ id: 2, price: 20, stockQuantity: 3, category: "merchandise" },
+		]);
+	});
+
+	// Test inventory lookups
+	it("should return seeded inventory and 404 for unknown items", async () => {
+		await expect(client.getInventory(1)).resolves.toEqual(
+			expect.objectContaining({ id: 1, price: 4 })
+		);
+		await expect(client.getInventory(9)).rejects.toMatchObject({
+			response: { status: 404, data: { message: "Inventory not found" } },
+		});
+		await expect(client.getInventoryBatch([1, 9, 2])).resolves.toEqual([
+			expect.objectContaining({ id: 1 }),
+			expect.objectContaining({ id: 2 }),
+		]);
+	});
+
+	// Test the cart lifecycle
+	it("should add, update, remove and clear cart items per user", async () => {
+		const first = await client.addCartItem({
+			user_id: 1,
+			inventory_id: 1,
+			quantity: 2,
+		});
+		await client.addCartItem({ user_id: 1, inventory_id: 2, quantity: 1 });
+		await client.addCartItem({ user_id: 2, inventory_id: 1, quantity: 5 });
+
+		expect(first).toEqual({
+			id: 1,
+			user_id: 1,
+			inventory_id: 1,
+			quantity: 2,
+		});
+		await expect(
+			client.updateCartItem(first.id, { quantity: 4 })
+		).resolves.toEqual(expect.objectContaining({ quantity: 4 }));
+		await expect(client.removeCartItem(first.id)).resolves.toEqual({
+			message: "Item removed",
+		});
+		expect(await client.getCart(1)).toEqual([
+			{ id: 2, user_id: 1, inventory_id: 2, quantity: 1 },
+		]);
+
+		await client.clearCart(1);
+
+		expect(await client.getCart(1)).toEqual([]);
+		expect(await client.getCart(2)).toHaveLength(1);
+	});
+
+	// Test unknown references
+	it("should reject unknown cart items and inventory", async () => {
+		await expect(client.getCartItem(42)).rejects.toMatchObject({
+			response: { status: 404 },
+		});
+		await expect(
+			client.addCartItem({ user_id: 1, inventory_id: 9, quantity: 1 })
+		).rejects.toMatchObject({ response: { status: 404 } });
+	});
+
+	// Test results are copies
+	it("should not let callers mutate stored records", async () => {
+		const item = await client.addCartItem({
+			user_id: 1,
+			inventory_id: 1,
+			quantity: 2,
+		});
+		item.quantity = 99;
+
+		expect((await client.getCartItem(item.id)).quantity).toBe(2);
+	});
+});
@@ -0,0 +1,75 @@
+export interface InventoryItem {
+	id: number;
+	name?: string;
+	price: number;
+	stockQuantity: number;
+	style?: string;
+	abv?: number;
+	imageUrl?: string;
+	category?: string;
+	volumeMl?: number;
+	containerType?: string;
+	containerSizeMl?: number;
+	unitsPerPack?: number;
+	maxPerOrder?: number;
+	maxPerCustomer?: number;
+	discontinued?: boolean;
+}
+
+export interface CartItem {
+	id: number;
+	user_id: number;
+	inventory_id: number;
+	quantity: number;
+}
+
+export interface NewCartItem {
+	user_id: number;
+	inventory_id: number;
+	quantity: number;
+}
+
+export interface CartItemUpdate {
+	quantity: number;
+}
+
+export interface MessageResponse {
+	message: string;
+}
+
+// Everything the cart service needs from the Brewery Database Service.
+// Implementations reject with an error carrying an axios-style `response`
+// so controllers can report upstream failures the same way either way.
+export interface BreweryApiClient {
+	getInventory(
+		inventoryId: number,
+		authorization?: string
+	): Promise<InventoryItem>;
+	getInventoryBatch(
+		inventoryIds: number[],
+		authorization?: string
+	): Promise<InventoryItem[]>;
+	getCart(userId: number, authorization?: string): Promise<CartItem[]>;
+	getCartItem(id: number, authorization?: string): Promise<CartItem>;
+	addCartItem(item: NewCartItem, authorization?: string): Promise<CartItem>;
+	updateCartItem(
+		id: number,
+		update: CartItemUpdate,
+		authorization?: string
+	): Promise<CartItem>;
+	removeCartItem(
+		id: number,
+		authorization?: string
+	): Promise<MessageResponse>;
+	clearCart(userId: number, authorization?: string): Promise<void>;
+}
+
+export class BreweryApiError extends Error {
+	readonly response: { status: number; data: MessageResponse };
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "BreweryApiError";
+		this.response = { status, data: { message } };
+	}
+}
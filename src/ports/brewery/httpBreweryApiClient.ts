@@ -0,0 +1,114 @@
+import { config } from "../../config/config";
+import { UpstreamClient, upstreamClient } from "../http/upstreamClient";
+import {
+	BreweryApiClient,
+	CartItem,
+	CartItemUpdate,
+	InventoryItem,
+	MessageResponse,
+	NewCartItem,
+} from "./breweryApiClient";
+
+export class HttpBreweryApiClient implements BreweryApiClient {
+	constructor(
+		private readonly breweryApiUrl: string = config.breweryApiUrl,
+		private readonly http: UpstreamClient = upstreamClient,
+		// Sent on calls made without a user token: public share links and
+		// background jobs.
+		private readonly serviceToken: string = config.breweryServiceToken
+	) {}
+
+	async getInventory(
+		inventoryId: number,
+		authorization?: string
+	): Promise<InventoryItem> {
+		const response = await this.http.get<InventoryItem>(
+			`${this.breweryApiUrl}/api/inventory/${inventoryId}`,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async getInventoryBatch(
+		inventoryIds: number[],
+		authorization?: string
+	): Promise<InventoryItem[]> {
+		const response = await this.http.post<InventoryItem[]>(
+			`${this.breweryApiUrl}/api/inventory/batch`,
+			{ ids: inventoryIds },
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async getCart(userId: number, authorization?: string): Promise<CartItem[]> {
+		const response = await this.http.get<CartItem[]>(
+			`${this.breweryApiUrl}/api/cart/${userId}`,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async getCartItem(id: number, authorization?: string): Promise<CartItem> {
+		const response = await this.http.get<CartItem>(
+			`${this.breweryApiUrl}/api/cart/item/${id}`,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async addCartItem(
+		item: NewCartItem,
+		authorization?: string
+	): Promise<CartItem> {
+		const response = await this.http.post<CartItem>(
+			`${this.breweryApiUrl}/api/cart/add`,
+			item,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async updateCartItem(
+		id: number,
+		update: CartItemUpdate,
+		authorization?: string
+	): Promise<CartItem> {
+		const response = await this.http.put<CartItem>(
+			`${this.breweryApiUrl}/api/cart/update/${id}`,
+			update,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async removeCartItem(
+		id: number,
+		authorization?: string
+	): Promise<MessageResponse> {
+		const response = await this.http.delete<MessageResponse>(
+			`${this.breweryApiUrl}/api/cart/remove/${id}`,
+			this.withAuth(authorization)
+		);
+		return response.data;
+	}
+
+	async clearCart(userId: number, authorization?: string): Promise<void> {
+		await this.http.delete(
+			`${this.breweryApiUrl}/api/cart/clear/${userId}`,
+			this.withAuth(authorization)
+		);
+	}
+
+	private withAuth(authorization?: string) {
+		return {
+			headers: {
+				Authorization:
+					authorization ??
+					(this.serviceToken
+						? `Bearer ${this.serviceToken}`
+						: undefined),
+			},
+		};
+	}
+}
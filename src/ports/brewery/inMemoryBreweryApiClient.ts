@@ -0,0 +1,118 @@
+import {
+	BreweryApiClient,
+	BreweryApiError,
+	CartItem,
+	CartItemUpdate,
+	InventoryItem,
+	MessageResponse,
+	NewCartItem,
+} from "./breweryApiClient";
+
+export const defaultInventory: InventoryItem[] = [
+	{
+		id: 1,
+		name: "Hop Harbour IPA",
+		price: 3.99,
+		stockQuantity: 120,
+		style: "West Coast IPA",
+		category: "beer",
+		containerType: "can",
+		containerSizeMl: 473,
+	},
+	{
+		id: 2,
+		name: "Lakeshore Lager 6-pack",
+		price: 14.49,
+		stockQuantity: 40,
+		style: "Lager",
+		category: "beer",
+		containerType: "bottle",
+		containerSizeMl: 341,
+		unitsPerPack: 6,
+	},
+	{
+		id: 3,
+		name: "Brewery Logo Tee",
+		price: 24.99,
+		stockQuantity: 25,
+		category: "merchandise",
+	},
+];
+
+// Keeps inventory and carts in process memory so the service and its tests
+// can run without the Brewery Database Service. Authorization is ignored.
+export class InMemoryBreweryApiClient implements BreweryApiClient {
+	private readonly inventory = new Map<number, InventoryItem>();
+	private readonly cartItems = new Map<number, CartItem>();
+	private nextCartItemId = 1;
+
+	constructor(inventory: InventoryItem[] = defaultInventory) {
+		inventory.forEach((item) => this.setInventory(item));
+	}
+
+	setInventory(item: InventoryItem): void {
+		this.inventory.set(item.id, { ...item });
+	}
+
+	async getInventory(inventoryId: number): Promise<InventoryItem> {
+		const item = this.inventory.get(Number(inventoryId));
+		if (!item) throw new BreweryApiError(404, "Inventory not found");
+		return { ...item };
+	}
+
+	async getInventoryBatch(inventoryIds: number[]): Promise<InventoryItem[]> {
+		return inventoryIds
+			.map((id) => this.inventory.get(Number(id)))
+			.filter((item): item is InventoryItem => item !== undefined)
+			.map((item) => ({ ...item }));
+	}
+
+	async getCart(userId: number): Promise<CartItem[]> {
+		return [...this.cartItems.values()]
+			.filter((item) => item.user_id === Number(userId))
+			.map((item) => ({ ...item }));
+	}
+
+	async getCartItem(id: number): Promise<CartItem> {
+		return { ...this.findCartItem(id) };
+	}
+
+	async addCartItem(item: NewCartItem): Promise<CartItem> {
+		await this.getInventory(item.inventory_id);
+		const cartItem: CartItem = {
+			id: this.nextCartItemId++,
+			user_id: Number(item.user_id),
+			inventory_id: Number(item.inventory_id),
+			quantity: Number(item.quantity),
+		};
+		this.cartItems.set(cartItem.id, cartItem);
+		return { ...cartItem };
+	}
+
+	async updateCartItem(
+		id: number,
+		update: CartItemUpdate
+	): Promise<CartItem> {
+		const cartItem = this.findCartItem(id);
+		cartItem.quantity = Number(update.quantity);
+		return { ...cartItem };
+	}
+
+	async removeCartItem(id: number): Promise<MessageResponse> {
+		this.findCartItem(id);
+		this.cartItems.delete(Number(id));
+		return { message: "Item removed" };
+	}
+
+	async clearCart(userId: number): Promise<void> {
+		for (const item of [...this.cartItems.values()]) {
+			if (item.user_id === Number(userId)) this.cartItems.delete(item.id);
+		}
+	}
+
+	private findCartItem(id: number): CartItem {
+		const cartItem = this.cartItems.get(Number(id));
+		if (!cartItem) throw new BreweryApiError(404, "Cart item not found");
+		return cartItem;
+	}
+}
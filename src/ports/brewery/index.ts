@@ -0,0 +1,22 @@
+import fs from "fs";
+import { config } from "../../config/config";
+import { BreweryApiClient, InventoryItem } from "./breweryApiClient";
+import { HttpBreweryApiClient } from "./httpBreweryApiClient";
+import {
+	InMemoryBreweryApiClient,
+	defaultInventory,
+} from "./inMemoryBreweryApiClient";
+
+const loadSeedInventory = (): InventoryItem[] =>
+	config.brewerySeedFile
+		? JSON.parse(fs.readFileSync(config.brewerySeedFile, "utf8"))
+		: defaultInventory;
+
+export const createBreweryApiClient = (
+	mode: string = config.breweryApiClient
+): BreweryApiClient =>
+	mode === "memory"
+		? new InMemoryBreweryApiClient(loadSeedInventory())
+		: new HttpBreweryApiClient();
+
+export const breweryApiClient = createBreweryApiClient();
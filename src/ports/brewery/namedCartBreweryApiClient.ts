@@ -0,0 +1,89 @@
+import {
+	NamedCartLine,
+	NamedCartStore,
+	namedCartStore,
+} from "../../services/namedCartStore";
+import {
+	BreweryApiClient,
+	BreweryApiError,
+	CartItem,
+	CartItemUpdate,
+	InventoryItem,
+	MessageResponse,
+	NewCartItem,
+} from "./breweryApiClient";
+
+const toCartItem = ({ cart_id, ...item }: NamedCartLine): CartItem => item;
+
+// Serves one named cart through the BreweryApiClient interface, so the cart
+// routes can run against it unchanged. Inventory still comes from upstream.
+export class NamedCartBreweryApiClient implements BreweryApiClient {
+	constructor(
+		private readonly cartId: string,
+		private readonly upstream: BreweryApiClient,
+		private readonly store: NamedCartStore = namedCartStore
+	) {}
+
+	getInventory(
+		inventoryId: number,
+		authorization?: string
+	): Promise<InventoryItem> {
+		return this.upstream.getInventory(inventoryId, authorization);
+	}
+
+	getInventoryBatch(
+		inventoryIds: number[],
+		authorization?: string
+	): Promise<InventoryItem[]> {
+		return this.upstream.getInventoryBatch(inventoryIds, authorization);
+	}
+
+	async getCart(userId: number): Promise<CartItem[]> {
+		return this.store.getLines(this.cartId).map(toCartItem);
+	}
+
+	async getCartItem(id: number): Promise<CartItem> {
+		return toCartItem(this.findLine(id));
+	}
+
+	async addCartItem(item: NewCartItem): Promise<CartItem> {
+		return toCartItem(
+			this.store.addLine(
+				this.cartId,
+				Number(item.user_id),
+				Number(item.inventory_id),
+				Number(item.quantity)
+			)
+		);
+	}
+
+	async updateCartItem(
+		id: number,
+		update: CartItemUpdate
+	): Promise<CartItem> {
+		this.findLine(id);
+		return toCartItem(
+			this.store.setQuantity(
+				this.cartId,
+				Number(id),
+				Number(update.quantity)
+			)!
+		);
+	}
+
+	async removeCartItem(id: number): Promise<MessageResponse> {
+		this.findLine(id);
+		this.store.removeLine(this.cartId, Number(id));
+		return { message: "Item removed" };
+	}
+
+	async clearCart(userId: number): Promise<void> {
+		this.store.clearLines(this.cartId);
+	}
+
+	private findLine(id: number): NamedCartLine {
+		const line = this.store.getLine(this.cartId, Number(id));
+		if (!line) throw new BreweryApiError(404, "Cart item not found");
+		return line;
+	}
+}
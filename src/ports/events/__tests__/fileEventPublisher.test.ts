@@ -0,0 +1,23 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createEvent } from "../eventPublisher";
+import { FileEventPublisher } from "../fileEventPublisher";
+
+describe("FileEventPublisher", () => {
+	// Test events are appended as JSON lines
+	it("should append one JSON line per event", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cart-events-"));
+		const file = path.join(dir, "events.jsonl");
+		const publisher = new FileEventPublisher(file);
+		const first = createEvent("CartAbandoned", { user_id: 1 });
+		const second = createEvent("CartAbandoned", { user_id: 2 });
+
+		await publisher.publish(first);
+		await publisher.publish(second);
+
+		const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+		expect(lines.map((line) => JSON.parse(line))).toEqual([first, second]);
+		fs.rmSync(dir, { recursive: true });
+	});
+});
@@ -0,0 +1,16 @@
+import { createEvent } from "../eventPublisher";
+import { InMemoryEventPublisher } from "../inMemoryEventPublisher";
+
+describe("InMemoryEventPublisher", () => {
+	// Test the buffer drops the oldest events once full
+	it("should keep only the latest events", async () => {
+		const publisher = new InMemoryEventPublisher(2);
+		const events = [1, 2, 3].map((userId) =>
+			createEvent("CartAbandoned", { user_id: userId })
+		);
+
+		for (const event of events) await publisher.publish(event);
+
+		expect(publisher.events()).toEqual(events.slice(1));
+	});
+});
@@ -0,0 +1,24 @@
+import { randomUUID } from "crypto";
+
+export interface DomainEvent<T = unknown> {
+	id: string;
+	type: string;
+	occurred_at: string;
+	payload: T;
+}
+
+// Where the service sends events for other systems (marketing, analytics).
+export interface EventPublisher {
+	publish(event: DomainEvent): Promise<void>;
+}
+
+export const createEvent = <T>(
+	type: string,
+	payload: T,
+	now: Date = new Date()
+): DomainEvent<T> => ({
+	id: randomUUID(),
+	type,
+	occurred_at: now.toISOString(),
+	payload,
+});
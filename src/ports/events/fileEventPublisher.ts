@@ -0,0 +1,12 @@
+import fs from "fs";
+import { config } from "../../config/config";
+import { DomainEvent, EventPublisher } from "./eventPublisher";
+
+// Appends one JSON event per line, for running locally without a broker.
+export class FileEventPublisher implements EventPublisher {
+	constructor(private readonly path: string = config.eventLogFile) {}
+
+	async publish(event: DomainEvent): Promise<void> {
+		await fs.promises.appendFile(this.path, `${JSON.stringify(event)}\n`);
+	}
+}
@@ -0,0 +1,27 @@
+import { config } from "../../config/config";
+import { UpstreamClient } from "../http/upstreamClient";
+import { DomainEvent, EventPublisher } from "./eventPublisher";
+
+// Posts each event to a single webhook. Delivery is at-least-once, so the
+// event id goes in a header for the receiver to drop duplicates.
+export class HttpEventPublisher implements EventPublisher {
+	constructor(
+		private readonly url: string = config.eventWebhookUrl,
+		// Its own client, so a failing webhook can't open the Brewery API
+		// circuit.
+		private readonly http: UpstreamClient = new UpstreamClient(
+			{},
+			"Event webhook"
+		)
+	) {}
+
+	async publish(event: DomainEvent): Promise<void> {
+		await this.http.post(this.url, event, {
+			headers: {
+				"Content-Type": "application/json",
+				"X-Event-Id": event.id,
+				"X-Event-Type": event.type,
+			},
+		});
+	}
+}
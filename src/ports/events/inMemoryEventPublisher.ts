@@ -0,0 +1,22 @@
+import { DomainEvent, EventPublisher } from "./eventPublisher";
+
+// Keeps only the latest events, since the service publishes here by
+// default and nothing ever reads them back outside tests.
+export class InMemoryEventPublisher implements EventPublisher {
+	private readonly published: DomainEvent[] = [];
+
+	constructor(private readonly maxEvents = 1000) {}
+
+	async publish(event: DomainEvent): Promise<void> {
+		this.published.push(event);
+		if (this.published.length > this.maxEvents) this.published.shift();
+	}
+
+	events(type?: string): DomainEvent[] {
+		return this.published.filter((event) => !type || event.type === type);
+	}
+
+	clear(): void {
+		this.published.length = 0;
+	}
+}
@@ -0,0 +1,15 @@
+import { config } from "../../config/config";
+import { EventPublisher } from "./eventPublisher";
+import { FileEventPublisher } from "./fileEventPublisher";
+import { HttpEventPublisher } from "./httpEventPublisher";
+import { InMemoryEventPublisher } from "./inMemoryEventPublisher";
+
+export const createEventPublisher = (
+	mode: string = config.eventPublisher
+): EventPublisher => {
+	if (mode === "file") return new FileEventPublisher();
+	if (mode === "http") return new HttpEventPublisher();
+	return new InMemoryEventPublisher();
+};
+
+export const eventPublisher = createEventPublisher();
@@ -0,0 +1,181 @@
+import axios from "axios";
+import { CircuitOpenError, UpstreamClient } from "../upstreamClient";
+
+// Mock axios for API calls
+jest.mock("axios", () => ({
+	get: jest.fn(),
+	post: jest.fn(),
+	put: jest.fn(),
+	delete: jest.fn(),
+}));
+
+const serverError = () =>
+	Object.assign(new Error("Bad Gateway"), {
+		response: { status: 502, data: {} },
+	});
+
+describe("UpstreamClient", () => {
+	let client: UpstreamClient;
+
+	beforeEach(() => {
+		jest.resetAllMocks();
+		client = new UpstreamClient({
+			timeoutMs: 250,
+			retries: 2,
+			retryBaseDelayMs: 0,
+			failureThreshold: 3,
+			resetTimeoutMs: 1000,
+		});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	// Test the per-request timeout
+	it("should pass the configured timeout to axios", async () => {
+		(axios.get as jest.Mock).mockResolvedValueOnce({ data: [] });
+
+		await client.get("http://upstream/api/cart/1", {
+			headers: { Authorization: "Bearer t" },
+		});
+
+		expect(axios.get).toHaveBeenCalledWith("http://upstream/api/cart/1", {
+			timeout: 250,
+			headers: { Authorization: "Bearer t" },
+		});
+	});
+
+	// Test retrying a transient failure
+	it("should retry GETs on 5xx and return the eventual response", async () => {
+		(axios.get as jest.Mock)
+			.mockRejectedValueOnce(serverError())
+			.mockResolvedValueOnce({ data: { id: 1 } });
+
+		const response = await client.get("http://upstream/api/inventory/1");
+
+		expect(response.data).toEqual({ id: 1 });
+		expect(axios.get).toHaveBeenCalledTimes(2);
+		expect(client.circuitState).toBe("closed");
+	});
+
+	// Test retries are capped
+	it("should give up after the configured number of retries", async () => {
+		(axios.get as jest.Mock).mockRejectedValue(serverError());
+
+		await expect(client.get("http://upstream/x")).rejects.toThrow(
+			"Bad Gateway"
+		);
+		expect(axios.get).toHaveBeenCalledTimes(3);
+	});
+
+	// Test 4xx responses are not retried
+	it("should not retry client errors", async () => {
+		(axios.get as jest.Mock).mockRejectedValueOnce(
+			Object.assign(new Error("Not Found"), {
+				response: { status: 404, data: {} },
+			})
+		);
+
+		await expect(client.get("http://upstream/x")).rejects.toThrow(
+			"Not Found"
+		);
+		expect(axios.get).toHaveBeenCalledTimes(1);
+	});
+
+	// Test writes are never retried
+	it("should not retry non-idempotent requests", async () => {
+		(axios.post as jest.Mock).mockRejectedValueOnce(serverError());
+
+		await expect(
+			client.post("http://upstream/api/cart/add", {})
+		).rejects.toThrow("Bad Gateway");
+		expect(axios.post).toHaveBeenCalledTimes(1);
+	});
+
+	// Test the breaker opening
+	it("should open the circuit and fail fast once the threshold is hit", async () => {
+		(axios.post as jest.Mock).mockRejectedValue(serverError());
+		for (let i = 0; i < 3; i++) {
+			await expect(client.post("http://upstream/x")).rejects.toThrow();
+		}
+
+		expect(client.circuitState).toBe("open");
+		await expect(client.post("http://upstream/x")).rejects.toBeInstanceOf(
+			CircuitOpenError
+		);
+		expect(axios.post).toHaveBeenCalledTimes(3);
+	});
+
+	// Test the error surfaced while open
+	it("should report a 503 with a retry hint while open", async () => {
+		(axios.post as jest.Mock).mockRejectedValue(serverError());
+		for (let i = 0; i < 3; i++) {
+			await expect(client.post("http://upstream/x")).rejects.toThrow();
+		}
+
+		const error = await client
+			.post("http://upstream/x")
+			.catch((err: any) => err);
+
+		expect(error.response.status).toBe(503);
+		expect(error.retryAfterSeconds).toBe(1);
+	});
+
+	// Test the open circuit names its upstream
+	it("should name the upstream service in the open-circuit error", async () => {
+		const orders = new UpstreamClient(
+			{
+				timeoutMs: 1000,
+				retries: 0,
+				retryBaseDelayMs: 0,
+				failureThreshold: 1,
+				resetTimeoutMs: 1000,
+			},
+			"Order service"
+		);
+		(axios.post as jest.Mock).mockRejectedValue(serverError());
+		await expect(orders.post("http://orders/x")).rejects.toThrow();
+
+		const error = await orders
+			.post("http://orders/x")
+			.catch((err: any) => err);
+
+		expect(error.message).toBe("Order service circuit is open");
+		expect(error.response.data).toEqual({
+			message: "Order service is unavailable",
+		});
+	});
+
+	// Test half-open recovery
+	it("should close the circuit after a successful trial request", async () => {
+		const now = jest.spyOn(Date, "now").mockReturnValue(10_000);
+		(axios.post as jest.Mock).mockRejectedValue(serverError());
+		for (let i = 0; i < 3; i++) {
+			await expect(client.post("http://upstream/x")).rejects.toThrow();
+		}
+		now.mockReturnValue(11_000);
+		(axios.post as jest.Mock).mockResolvedValueOnce({ data: {} });
+
+		await client.post("http://upstream/x");
+
+		expect(client.circuitState).toBe("closed");
+	});
+
+	// Test a failed trial request
+	it("should reopen the circuit if the trial request fails", async () => {
+		const now = jest.spyOn(Date, "now").mockReturnValue(10_000);
+		(axios.post as jest.Mock).mockRejectedValue(serverError());
+		for (let i = 0; i < 3; i++) {
+			await expect(client.post("http://upstream/x")).rejects.toThrow();
+		}
+		now.mockReturnValue(11_000);
+
+		await expect(client.post("http://upstream/x")).rejects.toThrow(
+			"Bad Gateway"
+		);
+
+		expect(client.circuitState).toBe("open");
+		expect(axios.post).toHaveBeenCalledTimes(4);
+	});
+});
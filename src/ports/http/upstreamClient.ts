@@ -0,0 +1,185 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { config } from "../../config/config";
+
+export interface UpstreamClientOptions {
+	timeoutMs: number;
+	retries: number;
+	retryBaseDelayMs: number;
+	failureThreshold: number;
+	resetTimeoutMs: number;
+}
+
+// Shaped like an axios error so existing `error.response?.status` handling
+// turns it into a 503 without special cases.
+export class CircuitOpenError extends Error {
+	readonly response: { status: number; data: { message: string } };
+
+	constructor(
+		readonly retryAfterSeconds: number,
+		serviceName = "Brewery API"
+	) {
+		super(`${serviceName} circuit is open`);
+		this.name = "CircuitOpenError";
+		this.response = {
+			status: 503,
+			data: { message: `${serviceName} is unavailable` },
+		};
+	}
+}
+
+type CircuitState = "closed" | "open" | "half_open";
+
+// Only failures that say something about the upstream's health count: no
+// response at all, or a 5xx. A 4xx means the upstream is up and answering.
+const isUpstreamFailure = (error: any): boolean =>
+	!error.response || error.response.status >= 500;
+
+const isRetryable = (error: any): boolean =>
+	isUpstreamFailure(error) || error.response?.status === 429;
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class UpstreamClient {
+	private state: CircuitState = "closed";
+	private consecutiveFailures = 0;
+	private openedAt = 0;
+
+	// Options left out are read from config on every call so they can be
+	// tuned at runtime.
+	constructor(
+		private readonly options: Partial<UpstreamClientOptions> = {},
+		// Names the upstream in the error an open circuit raises.
+		private readonly serviceName = "Brewery API"
+	) {}
+
+	get<T = any>(
+		url: string,
+		requestConfig?: AxiosRequestConfig
+	): Promise<AxiosResponse<T>> {
+		return this.execute(
+			() => axios.get<T>(url, this.withTimeout(requestConfig)),
+			true
+		);
+	}
+
+	post<T = any>(
+		url: string,
+		data?: any,
+		requestConfig?: AxiosRequestConfig
+	): Promise<AxiosResponse<T>> {
+		return this.execute(
+			() => axios.post<T>(url, data, this.withTimeout(requestConfig)),
+			false
+		);
+	}
+
+	put<T = any>(
+		url: string,
+		data?: any,
+		requestConfig?: AxiosRequestConfig
+	): Promise<AxiosResponse<T>> {
+		return this.execute(
+			() => axios.put<T>(url, data, this.withTimeout(requestConfig)),
+			false
+		);
+	}
+
+	delete<T = any>(
+		url: string,
+		requestConfig?: AxiosRequestConfig
+	): Promise<AxiosResponse<T>> {
+		return this.execute(
+			() => axios.delete<T>(url, this.withTimeout(requestConfig)),
+			false
+		);
+	}
+
+	get circuitState(): CircuitState {
+		return this.state;
+	}
+
+	resetCircuit(): void {
+		this.state = "closed";
+		this.consecutiveFailures = 0;
+		this.openedAt = 0;
+	}
+
+	private async execute<T>(
+		call: () => Promise<AxiosResponse<T>>,
+		idempotent: boolean
+	): Promise<AxiosResponse<T>> {
+		const retries = idempotent ? this.setting("retries") : 0;
+		for (let attempt = 0; ; attempt++) {
+			this.beforeRequest();
+			try {
+				const response = await call();
+				this.recordSuccess();
+				return response;
+			} catch (error: any) {
+				if (isUpstreamFailure(error)) {
+					this.recordFailure();
+				} else {
+					this.recordSuccess();
+				}
+				if (attempt >= retries || !isRetryable(error)) throw error;
+				await sleep(this.backoff(attempt));
+			}
+		}
+	}
+
+	private beforeRequest(): void {
+		if (this.state !== "open") return;
+		const resetTimeoutMs = this.setting("resetTimeoutMs");
+		const elapsed = Date.now() - this.openedAt;
+		if (elapsed < resetTimeoutMs) {
+			throw new CircuitOpenError(
+				Math.max(1, Math.ceil((resetTimeoutMs - elapsed) / 1000)),
+				this.serviceName
+			);
+		}
+		this.state = "half_open";
+	}
+
+	private recordSuccess(): void {
+		this.state = "closed";
+		this.consecutiveFailures = 0;
+	}
+
+	private recordFailure(): void {
+		this.consecutiveFailures++;
+		if (
+			this.state === "half_open" ||
+			this.consecutiveFailures >= this.setting("failureThreshold")
+		) {
+			this.state = "open";
+			this.openedAt = Date.now();
+		}
+	}
+
+	// Full jitter: a random delay up to the exponential backoff ceiling.
+	private backoff(attempt: number): number {
+		return Math.random() * this.setting("retryBaseDelayMs") * 2 ** attempt;
+	}
+
+	private withTimeout(
+		requestConfig?: AxiosRequestConfig
+	): AxiosRequestConfig {
+		return { timeout: this.setting("timeoutMs"), ...requestConfig };
+	}
+
+	private setting<K extends keyof UpstreamClientOptions>(
+		key: K
+	): UpstreamClientOptions[K] {
+		const defaults: UpstreamClientOptions = {
+			timeoutMs: config.upstreamTimeoutMs,
+			retries: config.upstreamRetries,
+			retryBaseDelayMs: config.upstreamRetryBaseDelayMs,
+			failureThreshold: config.circuitBreakerFailureThreshold,
+			resetTimeoutMs: config.circuitBreakerResetSeconds * 1000,
+		};
+		return this.options[key] ?? defaults[key];
+	}
+}
+
+export const upstreamClient = new UpstreamClient();
@@ -0,0 +1,39 @@
+import { config } from "../../config/config";
+import { UpstreamClient } from "../http/upstreamClient";
+import {
+	OrderConfirmation,
+	OrderServiceClient,
+	OrderSubmission,
+} from "./orderServiceClient";
+
+export class HttpOrderServiceClient implements OrderServiceClient {
+	constructor(
+		private readonly orderServiceUrl: string = config.orderServiceUrl,
+		// Its own client, so an order service outage can't open the Brewery
+		// API circuit.
+		private readonly http: UpstreamClient = new UpstreamClient(
+			{},
+			"Order service"
+		)
+	) {}
+
+	async submitOrder(
+		order: OrderSubmission,
+		authorization?: string
+	): Promise<OrderConfirmation> {
+		const response = await this.http.post<OrderConfirmation>(
+			`${this.orderServiceUrl}/api/orders`,
+			order,
+			{ headers: { Authorization: authorization } }
+		);
+		return response.data;
+	}
+
+	async cancelOrder(orderId: string, authorization?: string): Promise<void> {
+		await this.http.post(
+			`${this.orderServiceUrl}/api/orders/${orderId}/cancel`,
+			{},
+			{ headers: { Authorization: authorization } }
+		);
+	}
+}
@@ -0,0 +1,30 @@
+import {
+	OrderConfirmation,
+	OrderServiceClient,
+	OrderSubmission,
+} from "./orderServiceClient";
+
+export interface StoredOrder extends OrderSubmission, OrderConfirmation {}
+
+export class InMemoryOrderServiceClient implements OrderServiceClient {
+	private readonly orders = new Map<string, StoredOrder>();
+	private nextOrderId = 1;
+
+	async submitOrder(order: OrderSubmission): Promise<OrderConfirmation> {
+		const confirmation = {
+			order_id: `ord_${this.nextOrderId++}`,
+			status: "confirmed",
+		};
+		this.orders.set(confirmation.order_id, { ...order, ...confirmation });
+		return confirmation;
+	}
+
+	async cancelOrder(orderId: string): Promise<void> {
+		const order = this.orders.get(orderId);
+		if (order) order.status = "cancelled";
+	}
+
+	getOrder(orderId: string): StoredOrder | undefined {
+		return this.orders.get(orderId);
+	}
+}
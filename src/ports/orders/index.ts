@@ -0,0 +1,13 @@
+import { config } from "../../config/config";
+import { HttpOrderServiceClient } from "./httpOrderServiceClient";
+import { InMemoryOrderServiceClient } from "./inMemoryOrderServiceClient";
+import { OrderServiceClient } from "./orderServiceClient";
+
+export const createOrderServiceClient = (
+	mode: string = config.orderServiceClient
+): OrderServiceClient =>
+	mode === "memory"
+		? new InMemoryOrderServiceClient()
+		: new HttpOrderServiceClient();
+
+export const orderServiceClient = createOrderServiceClient();
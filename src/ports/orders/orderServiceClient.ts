@@ -0,0 +1,29 @@
+import { CartTotals } from "../../services/cartTotals";
+
+export interface OrderLine {
+	inventory_id: number;
+	name?: string;
+	quantity: number;
+	unit_price: number;
+}
+
+// A priced, frozen copy of the cart; the order service charges exactly this.
+export interface OrderSubmission extends Omit<CartTotals, "promo_error"> {
+	user_id: number;
+	lines: OrderLine[];
+	promo_code?: string;
+	priced_at: string;
+}
+
+export interface OrderConfirmation {
+	order_id: string;
+	status: string;
+}
+
+export interface OrderServiceClient {
+	submitOrder(
+		order: OrderSubmission,
+		authorization?: string
+	): Promise<OrderConfirmation>;
+	cancelOrder(orderId: string, authorization?: string): Promise<void>;
+}
@@ -0,0 +1,16 @@
+import { ExchangeRateTable } from "./staticExchangeRateProvider";
+
+// Sample rates for running locally. Point EXCHANGE_RATES_FILE at a table
+// in the same shape to use real ones.
+export const defaultExchangeRates: ExchangeRateTable = {
+	base: "CAD",
+	as_of: "2026-10-01T00:00:00.000Z",
+	rates: {
+		USD: 0.73,
+		EUR: 0.67,
+		GBP: 0.56,
+		MXN: 13.2,
+		JPY: 108.5,
+		CHF: 0.64,
+	},
+};
@@ -0,0 +1,13 @@
+export interface ExchangeRate {
+	from: string;
+	to: string;
+	// Units of `to` per unit of `from`.
+	rate: number;
+	as_of: string;
+}
+
+// Where exchange rates come from. Resolves to undefined for a currency
+// pair it has no rate for.
+export interface ExchangeRateProvider {
+	getRate(from: string, to: string): Promise<ExchangeRate | undefined>;
+}
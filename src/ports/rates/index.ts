@@ -0,0 +1,12 @@
+import fs from "fs";
+import { config } from "../../config/config";
+import { defaultExchangeRates } from "./defaultExchangeRates";
+import { ExchangeRateProvider } from "./exchangeRateProvider";
+import { StaticExchangeRateProvider } from "./staticExchangeRateProvider";
+
+export const exchangeRateProvider: ExchangeRateProvider =
+	new StaticExchangeRateProvider(
+		config.exchangeRatesFile
+			? JSON.parse(fs.readFileSync(config.exchangeRatesFile, "utf8"))
+			: defaultExchangeRates
+	);
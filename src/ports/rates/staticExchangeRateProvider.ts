@@ -0,0 +1,32 @@
+import { ExchangeRate, ExchangeRateProvider } from "./exchangeRateProvider";
+
+export interface ExchangeRateTable {
+	base: string;
+	as_of: string;
+	// Units of each currency per unit of `base`.
+	rates: Record<string, number>;
+}
+
+// Serves a fixed rate table, for local use and tests. Pairs that don't
+// involve the table's base currency are crossed through it.
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+	constructor(private readonly table: ExchangeRateTable) {}
+
+	async getRate(from: string, to: string): Promise<ExchangeRate | undefined> {
+		const fromRate = this.perBase(from.toUpperCase());
+		const toRate = this.perBase(to.toUpperCase());
+		if (fromRate === undefined || toRate === undefined) return undefined;
+		return {
+			from: from.toUpperCase(),
+			to: to.toUpperCase(),
+			rate: toRate / fromRate,
+			as_of: this.table.as_of,
+		};
+	}
+
+	private perBase(currency: string): number | undefined {
+		return currency === this.table.base.toUpperCase()
+			? 1
+			: this.table.rates[currency];
+	}
+}
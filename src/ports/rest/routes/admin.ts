@@ -0,0 +1,117 @@
+import express, { NextFunction, Response } from "express";
+import { body } from "express-validator";
+import { AdminController } from "../../../controllers/adminController";
+import { WebhookController } from "../../../controllers/webhookController";
+import {
+	verifyToken,
+	requireAdmin,
+	AuthRequest,
+} from "../../../middleware/auth";
+import { WEBHOOK_EVENT_TYPES } from "../../../services/webhooks/webhookSubscriptionStore";
+
+const router = express.Router();
+const adminController = new AdminController();
+const webhookController = new WebhookController();
+
+const webhookUrl = () =>
+	body("url")
+		.isURL({ protocols: ["http", "https"], require_tld: false })
+		.withMessage("URL must be an http or https URL");
+
+const webhookEventTypes = () => [
+	body("event_types")
+		.optional()
+		.isArray({ min: 1 })
+		.withMessage("Event types must be a non-empty array"),
+	body("event_types.*")
+		.isIn(WEBHOOK_EVENT_TYPES)
+		.withMessage(
+			`Event type must be one of ${WEBHOOK_EVENT_TYPES.join(", ")}`
+		),
+];
+
+router.delete(
+	"/inventory-cache",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		adminController.clearInventoryCache(req, res, next)
+);
+
+router.delete(
+	"/inventory-cache/:inventory_id",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		adminController.invalidateInventoryCache(req, res, next)
+);
+
+router.get(
+	"/webhooks",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.listWebhooks(req, res, next)
+);
+
+router.post(
+	"/webhooks",
+	verifyToken,
+	requireAdmin,
+	webhookUrl(),
+	...webhookEventTypes(),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.createWebhook(req, res, next)
+);
+
+router.patch(
+	"/webhooks/:id",
+	verifyToken,
+	requireAdmin,
+	webhookUrl().optional(),
+	...webhookEventTypes(),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.updateWebhook(req, res, next)
+);
+
+router.delete(
+	"/webhooks/:id",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.deleteWebhook(req, res, next)
+);
+
+router.post(
+	"/webhooks/:id/rotate-secret",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.rotateWebhookSecret(req, res, next)
+);
+
+router.get(
+	"/webhooks/:id/dead-letters",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.listDeadLetters(req, res, next)
+);
+
+router.post(
+	"/webhooks/:id/dead-letters/replay",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.replayDeadLetters(req, res, next)
+);
+
+router.post(
+	"/webhooks/:id/dead-letters/:delivery_id/replay",
+	verifyToken,
+	requireAdmin,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		webhookController.replayDeadLetter(req, res, next)
+);
+
+export = router;
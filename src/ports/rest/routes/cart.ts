@@ -1,14 +1,23 @@
 import express, { NextFunction, Request, Response } from "express";
 import { body } from "express-validator";
+import { config } from "../../../config/config";
 import { CartController } from "../../../controllers/cartController";
+import { NamedCartController } from "../../../controllers/namedCartController";
+import { SavedItemsController } from "../../../controllers/savedItemsController";
+import { SharedCartController } from "../../../controllers/sharedCartController";
 import { verifyToken, AuthRequest } from "../../../middleware/auth";
+import { idempotent } from "../../../middleware/idempotency";
 
 const router = express.Router();
 const cartController = new CartController();
+const savedItemsController = new SavedItemsController();
+const namedCartController = new NamedCartController();
+const sharedCartController = new SharedCartController();
 
 router.post(
 	"/add",
 	verifyToken,
+	idempotent,
 	body("user_id")
 		.isInt({ min: 1 })
 		.withMessage("User ID must be a positive integer"),
@@ -18,10 +27,48 @@ router.post(
 	body("quantity")
 		.isInt({ min: 1 })
 		.withMessage("Quantity must be at least 1"),
+	body("mode")
+		.optional()
+		.isIn(["increment", "replace"])
+		.withMessage("Mode must be increment or replace"),
 	(req: AuthRequest, res: Response, next: NextFunction) =>
 		cartController.addToCart(req, res, next)
 );
 
+// Public: the share token is the only credential.
+router.get(
+	"/shared/:token",
+	(req: Request, res: Response, next: NextFunction) =>
+		sharedCartController.getSharedCart(req, res, next)
+);
+
+router.post(
+	"/shared/:token/import",
+	verifyToken,
+	idempotent,
+	body("mode")
+		.optional()
+		.isIn(["all_or_nothing", "best_effort"])
+		.withMessage("Mode must be all_or_nothing or best_effort"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		sharedCartController.importSharedCart(req, res, next)
+);
+
+router.post(
+	"/:user_id/share",
+	verifyToken,
+	body("cart_id")
+		.optional()
+		.isString()
+		.withMessage("Cart ID must be a string"),
+	body("expires_in")
+		.optional()
+		.isInt({ min: 60 })
+		.withMessage("Expiry must be at least 60 seconds"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		sharedCartController.createShareLink(req, res, next)
+);
+
 router.get(
 	"/:user_id",
 	verifyToken,
@@ -32,6 +79,7 @@ router.get(
 router.put(
 	"/update/:id",
 	verifyToken,
+	idempotent,
 	body("quantity")
 		.isInt({ min: 1 })
 		.withMessage("Quantity must be at least 1"),
@@ -42,17 +90,100 @@ router.put(
 router.delete(
 	"/remove/:id",
 	verifyToken,
+	idempotent,
 	(req: AuthRequest, res: Response, next: NextFunction) =>
 		cartController.removeFromCart(req, res, next)
 );
 
+router.post(
+	"/:user_id/batch",
+	verifyToken,
+	idempotent,
+	body("mode")
+		.optional()
+		.isIn(["all_or_nothing", "best_effort"])
+		.withMessage("Mode must be all_or_nothing or best_effort"),
+	body("operations")
+		.isArray({ min: 1, max: config.cartBatchMaxOperations })
+		.withMessage(
+			`Operations must be a list of 1 to ${config.cartBatchMaxOperations} entries`
+		),
+	body("operations.*.op")
+		.isIn(["add", "update", "remove"])
+		.withMessage("Operation must be add, update or remove"),
+	body("operations.*.inventory_id")
+		.optional()
+		.isInt({ min: 1 })
+		.withMessage("Inventory ID must be a positive integer"),
+	body("operations.*.id")
+		.optional()
+		.isInt({ min: 1 })
+		.withMessage("Cart item ID must be a positive integer"),
+	body("operations.*.quantity")
+		.optional()
+		.isInt({ min: 1 })
+		.withMessage("Quantity must be at least 1"),
+	body("operations.*.mode")
+		.optional()
+		.isIn(["increment", "replace"])
+		.withMessage("Mode must be increment or replace"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.batchUpdateCart(req, res, next)
+);
+
 router.delete(
 	"/clear/:user_id",
 	verifyToken,
+	idempotent,
 	(req: AuthRequest, res: Response, next: NextFunction) =>
 		cartController.clearCart(req, res, next)
 );
 
+router.get(
+	"/item/:id/hold",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.getHold(req, res, next)
+);
+
+router.post(
+	"/item/:id/save-for-later",
+	verifyToken,
+	idempotent,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		savedItemsController.saveForLater(req, res, next)
+);
+
+router.get(
+	"/:user_id/saved",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		savedItemsController.getSavedItems(req, res, next)
+);
+
+router.post(
+	"/:user_id/saved/:id/move-to-cart",
+	verifyToken,
+	idempotent,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		savedItemsController.moveToCart(req, res, next)
+);
+
+router.get(
+	"/:user_id/validate",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.validateCart(req, res, next)
+);
+
+router.post(
+	"/:user_id/validate/fix",
+	verifyToken,
+	idempotent,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.fixCart(req, res, next)
+);
+
 router.get(
 	"/:user_id/total",
 	verifyToken,
@@ -60,4 +191,150 @@ router.get(
 		cartController.getCartTotal(req, res, next)
 );
 
+router.post(
+	"/:user_id/promo",
+	verifyToken,
+	body("code").isString().notEmpty().withMessage("Promo code is required"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.applyPromoCode(req, res, next)
+);
+
+router.delete(
+	"/:user_id/promo",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.removePromoCode(req, res, next)
+);
+
+router.post(
+	"/:user_id/price-changes/acknowledge",
+	verifyToken,
+	body("inventory_ids")
+		.optional()
+		.isArray()
+		.withMessage("Inventory IDs must be an array"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.acknowledgePriceChanges(req, res, next)
+);
+
+router.get(
+	"/:user_id/carts",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.listCarts(req, res, next)
+);
+
+router.post(
+	"/:user_id/carts",
+	verifyToken,
+	body("name")
+		.isString()
+		.trim()
+		.isLength({ min: 1, max: 100 })
+		.withMessage("Cart name must be 1 to 100 characters"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.createCart(req, res, next)
+);
+
+router.patch(
+	"/:user_id/carts/:cart_id",
+	verifyToken,
+	body("name")
+		.isString()
+		.trim()
+		.isLength({ min: 1, max: 100 })
+		.withMessage("Cart name must be 1 to 100 characters"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.renameCart(req, res, next)
+);
+
+router.delete(
+	"/:user_id/carts/:cart_id",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.deleteCart(req, res, next)
+);
+
+router.post(
+	"/:user_id/carts/:cart_id/select",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.selectCart(req, res, next)
+);
+
+router.get(
+	"/:user_id/carts/:cart_id",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.getCart(req, res, next)
+);
+
+router.post(
+	"/:user_id/carts/:cart_id/add",
+	verifyToken,
+	idempotent,
+	body("inventory_id")
+		.isInt({ min: 1 })
+		.withMessage("Inventory ID must be a positive integer"),
+	body("quantity")
+		.isInt({ min: 1 })
+		.withMessage("Quantity must be at least 1"),
+	body("mode")
+		.optional()
+		.isIn(["increment", "replace"])
+		.withMessage("Mode must be increment or replace"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.addToCart(req, res, next)
+);
+
+router.put(
+	"/:user_id/carts/:cart_id/update/:id",
+	verifyToken,
+	idempotent,
+	body("quantity")
+		.isInt({ min: 1 })
+		.withMessage("Quantity must be at least 1"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.updateCart(req, res, next)
+);
+
+router.delete(
+	"/:user_id/carts/:cart_id/remove/:id",
+	verifyToken,
+	idempotent,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.removeFromCart(req, res, next)
+);
+
+router.delete(
+	"/:user_id/carts/:cart_id/clear",
+	verifyToken,
+	idempotent,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.clearCart(req, res, next)
+);
+
+router.get(
+	"/:user_id/carts/:cart_id/total",
+	verifyToken,
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		namedCartController.getCartTotal(req, res, next)
+);
+
+router.post(
+	"/:user_id/checkout",
+	verifyToken,
+	idempotent,
+	body("province")
+		.optional()
+		.isString()
+		.withMessage("Province must be a string"),
+	body("expected_total")
+		.optional()
+		.isFloat({ min: 0 })
+		.withMessage("Expected total must be a non-negative number"),
+	(req: AuthRequest, res: Response, next: NextFunction) =>
+		cartController.checkout(req, res, next)
+);
+
 export = router;
@@ -0,0 +1,59 @@
+import express, { NextFunction, Response } from "express";
+import { body } from "express-validator";
+import { GuestCartController } from "../../../controllers/guestCartController";
+import { verifyToken } from "../../../middleware/auth";
+import { verifyGuestToken, GuestRequest } from "../../../middleware/guest";
+
+const router = express.Router();
+const guestCartController = new GuestCartController();
+
+router.post("/", (req: GuestRequest, res: Response, next: NextFunction) =>
+	guestCartController.createGuestCart(req, res, next)
+);
+
+router.get(
+	"/",
+	verifyGuestToken,
+	(req: GuestRequest, res: Response, next: NextFunction) =>
+		guestCartController.getGuestCart(req, res, next)
+);
+
+router.post(
+	"/add",
+	verifyGuestToken,
+	body("inventory_id")
+		.isInt({ min: 1 })
+		.withMessage("Inventory ID must be a positive integer"),
+	body("quantity")
+		.isInt({ min: 1 })
+		.withMessage("Quantity must be at least 1"),
+	(req: GuestRequest, res: Response, next: NextFunction) =>
+		guestCartController.addToGuestCart(req, res, next)
+);
+
+router.put(
+	"/update/:inventory_id",
+	verifyGuestToken,
+	body("quantity")
+		.isInt({ min: 1 })
+		.withMessage("Quantity must be at least 1"),
+	(req: GuestRequest, res: Response, next: NextFunction) =>
+		guestCartController.updateGuestCart(req, res, next)
+);
+
+router.delete(
+	"/remove/:inventory_id",
+	verifyGuestToken,
+	(req: GuestRequest, res: Response, next: NextFunction) =>
+		guestCartController.removeFromGuestCart(req, res, next)
+);
+
+router.post(
+	"/merge",
+	verifyToken,
+	verifyGuestToken,
+	(req: GuestRequest, res: Response, next: NextFunction) =>
+		guestCartController.mergeGuestCart(req, res, next)
+);
+
+export = router;
@@ -0,0 +1,19 @@
+import axios from "axios";
+import { config } from "../../config/config";
+import { WebhookRequest, WebhookSender } from "./webhookSender";
+
+// Calls axios directly rather than through UpstreamClient: every receiver
+// is a different host, and the dispatcher schedules its own retries, so a
+// shared circuit breaker would only let one slow partner block the rest.
+export class HttpWebhookSender implements WebhookSender {
+	constructor(private readonly timeoutMs: number = config.webhookTimeoutMs) {}
+
+	async send({ url, body, headers }: WebhookRequest): Promise<void> {
+		await axios.post(url, body, {
+			headers: { "Content-Type": "application/json", ...headers },
+			timeout: this.timeoutMs,
+			// Keep axios from re-serialising the signed body.
+			transformRequest: [(data) => data],
+		});
+	}
+}
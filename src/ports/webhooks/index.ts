@@ -0,0 +1,4 @@
+import { HttpWebhookSender } from "./httpWebhookSender";
+import { WebhookSender } from "./webhookSender";
+
+export const webhookSender: WebhookSender = new HttpWebhookSender();
@@ -0,0 +1,12 @@
+export interface WebhookRequest {
+	url: string;
+	// Sent exactly as signed.
+	body: string;
+	headers: Record<string, string>;
+}
+
+// Implementations reject with an axios-style `response` carrying the
+// receiver's status when it answers with anything but a 2xx.
+export interface WebhookSender {
+	send(request: WebhookRequest): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import {
+	AgeVerifier,
+	LocalAgeVerificationProvider,
+	ageOn,
+} from "../ageVerification";
+
+describe("ageVerification", () => {
+	let provider: LocalAgeVerificationProvider;
+	let verifier: AgeVerifier;
+
+	beforeEach(() => {
+		provider = new LocalAgeVerificationProvider();
+		verifier = new AgeVerifier(provider, 19);
+	});
+
+	// Test birthday arithmetic around the birthday itself
+	it("should only count a year once the birthday has passed", () => {
+		const today = new Date("2026-06-15T12:00:00Z");
+
+		expect(ageOn("2007-06-15", today)).toBe(19);
+		expect(ageOn("2007-06-16", today)).toBe(18);
+	});
+
+	// Test the birthdate claim
+	it("should verify users from the birthdate claim", async () => {
+		await expect(
+			verifier.verify({ id: 1, birthdate: "1990-01-01" })
+		).resolves.toBe("verified");
+		await expect(
+			verifier.verify({ id: 1, birthdate: "2099-01-01" })
+		).resolves.toBe("underage");
+	});
+
+	// Test the age_verified claim
+	it("should trust the age_verified claim without a birthdate", async () => {
+		await expect(
+			verifier.verify({ id: 1, ageVerified: true })
+		).resolves.toBe("verified");
+	});
+
+	// Test the local provider fallback
+	it("should fall back to the verification provider", async () => {
+		await expect(verifier.verify({ id: 1 })).resolves.toBe("unverified");
+
+		provider.record(1, "1985-03-02");
+
+		await expect(verifier.verify({ id: 1 })).resolves.toBe("verified");
+	});
+});
@@ -0,0 +1,214 @@
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { CartMutationService } from "../cartMutations";
+import { InventoryCache } from "../inventoryCache";
+import { InventoryLoader } from "../inventoryLoader";
+import { outboxStore } from "../outbox/outboxStore";
+import { priceSnapshotStore } from "../priceSnapshots";
+import { reservationStore } from "../reservations/reservationStore";
+import { webhookDispatcher } from "../webhooks/webhookDispatcher";
+
+describe("CartMutationService", () => {
+	const user = { id: 1, ageVerified: true };
+	let brewery: InMemoryBreweryApiClient;
+	let service: CartMutationService;
+
+	beforeEach(async () => {
+		reservationStore.releaseAll(1);
+		priceSnapshotStore.releaseAll(1);
+		brewery = new InMemoryBreweryApiClient([
+			{ id: 1, price: 4, stockQuantity: 10 },
+			{ id: 2, price: 5, stockQuantity: 3 },
+			{ id: 3, price: 6, stockQuantity: 10 },
+		]);
+		service = new CartMutationService(
+			brewery,
+			new InventoryLoader(brewery, 2, true, new InventoryCache())
+		);
+		await brewery.addCartItem({ user_id: 1, inventory_id: 3, quantity: 2 });
+	});
+
+	// Test a batch that applies in full
+	it("should apply every operation when all of them pass", async () => {
+		const outcome = await service.batch(
+			user,
+			[
+				{ op: "add", inventory_id: 1, quantity: 2 },
+				{ op: "add", inventory_id: 1, quantity: 1 },
+				{ op: "update", id: 1, quantity: 4 },
+				{ op: "add", inventory_id: 2, quantity: 3 },
+			],
+			"all_or_nothing"
+		);
+
+		expect(outcome.applied).toBe(true);
+		expect(outcome.results.map((result) => result.status)).toEqual([
+			201, 200, 200, 201,
+		]);
+		expect(await brewery.getCart(1)).toEqual([
+			{ id: 1, user_id: 1, inventory_id: 3, quantity: 4 },
+			{ id: 2, user_id: 1, inventory_id: 1, quantity: 3 },
+			{ id: 3, user_id: 1, inventory_id: 2, quantity: 3 },
+		]);
+		expect(reservationStore.get(1, 1)?.quantity).toBe(3);
+		expect(priceSnapshotStore.get(1, 2)).toBe(5);
+	});
+
+	// Test events for a line created earlier in the batch carry its real id
+	it("should publish written line ids for lines created in the batch", async () => {
+		outboxStore.clear();
+
+		await service.batch(
+			user,
+			[
+				{ op: "add", inventory_id: 1, quantity: 2 },
+				{ op: "add", inventory_id: 1, quantity: 1 },
+			],
+			"all_or_nothing"
+		);
+
+		expect(
+			outboxStore.list().map(({ event }) => [event.type, event.payload])
+		).toEqual([
+			["CartItemAdded", expect.objectContaining({ item_id: 2 })],
+			[
+				"CartItemQuantityChanged",
+				expect.objectContaining({ item_id: 2, quantity: 3 }),
+			],
+		]);
+		outboxStore.clear();
+	});
+
+	// Test the per-customer limit counts earlier operations in the batch
+	it("should count earlier adds against the customer limit", async () => {
+		brewery = new InMemoryBreweryApiClient([
+			{ id: 9, price: 4, stockQuantity: 10, maxPerCustomer: 2 },
+		]);
+		service = new CartMutationService(
+			brewery,
+			new InventoryLoader(brewery, 2, true, new InventoryCache())
+		);
+
+		const outcome = await service.batch(
+			{ id: 5, ageVerified: true },
+			[
+				{ op: "add", inventory_id: 9, quantity: 2 },
+				{ op: "add", inventory_id: 9, quantity: 2 },
+			],
+			"all_or_nothing"
+		);
+
+		expect(outcome.applied).toBe(false);
+		expect(outcome.results[1]).toEqual(
+			expect.objectContaining({
+				status: 422,
+				error: expect.objectContaining({
+					violations: [
+						expect.objectContaining({
+							code: "CUSTOMER_LIMIT_EXCEEDED",
+							purchased: 2,
+							requested: 2,
+						}),
+					],
+				}),
+			})
+		);
+		expect(await brewery.getCart(5)).toEqual([]);
+	});
+
+	// Test webhooks are queued with the change, not by the outbox relay
+	it("should queue webhook deliveries when a change is committed", async () => {
+		const enqueue = jest
+			.spyOn(webhookDispatcher, "enqueue")
+			.mockImplementation(() => {});
+		outboxStore.clear();
+
+		await service.batch(
+			user,
+			[{ op: "add", inventory_id: 1, quantity: 2 }],
+			"best_effort"
+		);
+
+		expect(enqueue).toHaveBeenCalledWith(outboxStore.list()[0].event);
+		enqueue.mockRestore();
+		outboxStore.clear();
+	});
+
+	// Test one bad operation blocks the whole batch
+	it("should write nothing when any operation is rejected", async () => {
+		const outcome = await service.batch(
+			user,
+			[
+				{ op: "add", inventory_id: 1, quantity: 2 },
+				{ op: "add", inventory_id: 2, quantity: 4 },
+				{ op: "remove", id: 1 },
+			],
+			"all_or_nothing"
+		);
+
+		expect(outcome.applied).toBe(false);
+		expect(outcome.results).toEqual([
+			expect.objectContaining({ index: 0, status: 424 }),
+			{
+				index: 1,
+				op: "add",
+				status: 400,
+				error: { message: "Insufficient stock" },
+			},
+			expect.objectContaining({ index: 2, status: 424 }),
+		]);
+		expect(await brewery.getCart(1)).toHaveLength(1);
+		expect(reservationStore.get(1, 1)).toBeUndefined();
+	});
+
+	// Test best-effort mode keeps going past failures
+	it("should apply what it can in best-effort mode", async () => {
+		const outcome = await service.batch(
+			user,
+			[
+				{ op: "add", inventory_id: 2, quantity: 4 },
+				{ op: "remove", id: 99 },
+				{ op: "update", id: 1 } as any,
+				{ op: "remove", id: 1 },
+				{ op: "add", inventory_id: 1, quantity: 1 },
+			],
+			"best_effort"
+		);
+
+		expect(outcome.applied).toBe(true);
+		expect(outcome.results.map((result) => result.status)).toEqual([
+			400, 404, 400, 200, 201,
+		]);
+		expect(outcome.results[2].error).toEqual({
+			message: "quantity is required",
+		});
+		expect(await brewery.getCart(1)).toEqual([
+			{ id: 2, user_id: 1, inventory_id: 1, quantity: 1 },
+		]);
+		expect(reservationStore.get(1, 3)).toBeUndefined();
+	});
+
+	// Test a failed write rolls back the earlier ones
+	it("should roll back written operations when a write fails", async () => {
+		const addCartItem = brewery.addCartItem.bind(brewery);
+		jest.spyOn(brewery, "addCartItem")
+			.mockImplementationOnce(addCartItem)
+			.mockRejectedValueOnce(new Error("upstream down"));
+
+		await expect(
+			service.batch(
+				user,
+				[
+					{ op: "update", id: 1, quantity: 5 },
+					{ op: "add", inventory_id: 1, quantity: 2 },
+					{ op: "add", inventory_id: 2, quantity: 1 },
+				],
+				"all_or_nothing"
+			)
+		).rejects.toThrow("upstream down");
+
+		expect(await brewery.getCart(1)).toEqual([
+			{ id: 1, user_id: 1, inventory_id: 3, quantity: 2 },
+		]);
+		expect(reservationStore.get(1, 1)).toBeUndefined();
+	});
+});
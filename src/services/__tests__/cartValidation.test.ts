@@ -0,0 +1,118 @@
+import { InMemoryBreweryApiClient } from "../../ports/brewery/inMemoryBreweryApiClient";
+import { CartValidationService, validateCart } from "../cartValidation";
+import { InventoryCache } from "../inventoryCache";
+import { InventoryLoader } from "../inventoryLoader";
+import { outboxStore } from "../outbox/outboxStore";
+import { priceSnapshotStore } from "../priceSnapshots";
+import { reservationStore } from "../reservations/reservationStore";
+
+describe("cartValidation", () => {
+	const line = (id: number, inventoryId: number, quantity: number) => ({
+		id,
+		user_id: 1,
+		inventory_id: inventoryId,
+		quantity,
+	});
+
+	beforeEach(() => {
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+		priceSnapshotStore.releaseAll(1);
+	});
+
+	// Test a healthy cart
+	it("should report a valid cart with no issues", () => {
+		const validation = validateCart(
+			1,
+			[line(1, 1, 2)],
+			new Map([[1, { id: 1, price: 4, stockQuantity: 10 }]])
+		);
+
+		expect(validation).toEqual({
+			valid: true,
+			lines: [{ ...line(1, 1, 2), issues: [] }],
+			cart_issues: [],
+		});
+	});
+
+	// Test every per-line issue at once
+	it("should report every problem in one pass", () => {
+		reservationStore.hold(2, 2, 8);
+		priceSnapshotStore.record(1, 4, 5);
+		const validation = validateCart(
+			1,
+			[line(1, 1, 1), line(2, 2, 3), line(3, 3, 1), line(4, 4, 6)],
+			new Map([
+				[1, undefined],
+				[2, { id: 2, price: 4, stockQuantity: 10 }],
+				[3, { id: 3, price: 4, stockQuantity: 0 }],
+				[4, { id: 4, price: 6, stockQuantity: 50, maxPerOrder: 4 }],
+			])
+		);
+
+		expect(validation.valid).toBe(false);
+		expect(
+			validation.lines.map((l) => [l.issues.map((i) => i.code), l.fix])
+		).toEqual([
+			[["ITEM_DISCONTINUED"], { action: "remove" }],
+			[["STOCK_REDUCED"], { action: "set_quantity", quantity: 2 }],
+			[["OUT_OF_STOCK"], { action: "remove" }],
+			[
+				["LIMIT_EXCEEDED", "PRICE_CHANGED"],
+				{ action: "set_quantity", quantity: 4 },
+			],
+		]);
+	});
+
+	// Test stock is shared across duplicate lines
+	it("should only clamp later duplicate lines", () => {
+		const validation = validateCart(
+			1,
+			[line(1, 1, 3), line(2, 1, 3)],
+			new Map([[1, { id: 1, price: 4, stockQuantity: 4 }]])
+		);
+
+		expect(validation.lines[0].fix).toBeUndefined();
+		expect(validation.lines[1].fix).toEqual({
+			action: "set_quantity",
+			quantity: 1,
+		});
+	});
+
+	// Test auto-fix against the in-memory API
+	it("should clamp quantities and drop dead lines when fixing", async () => {
+		const brewery = new InMemoryBreweryApiClient([
+			{ id: 1, price: 4, stockQuantity: 2 },
+			{ id: 2, price: 4, stockQuantity: 10 },
+		]);
+		const service = new CartValidationService(
+			brewery,
+			new InventoryLoader(brewery, 2, false, new InventoryCache())
+		);
+		await brewery.addCartItem({ user_id: 1, inventory_id: 1, quantity: 5 });
+		await brewery.addCartItem({ user_id: 1, inventory_id: 2, quantity: 1 });
+		brewery.setInventory({
+			id: 2,
+			price: 4,
+			stockQuantity: 10,
+			discontinued: true,
+		});
+
+		const { validation } = await service.validate(1);
+		outboxStore.clear();
+		const fixes = await service.applyFixes(1, validation);
+
+		expect(fixes).toEqual([
+			{ id: 1, inventory_id: 1, action: "set_quantity", quantity: 2 },
+			{ id: 2, inventory_id: 2, action: "remove" },
+		]);
+		expect(await brewery.getCart(1)).toEqual([line(1, 1, 2)]);
+		expect(reservationStore.get(1, 1)?.quantity).toBe(2);
+		expect(outboxStore.list().map(({ event }) => event.type)).toEqual([
+			"CartItemQuantityChanged",
+			"CartItemRemoved",
+		]);
+		outboxStore.clear();
+		expect((await service.validate(1)).validation.valid).toBe(true);
+	});
+});
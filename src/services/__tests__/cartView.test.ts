@@ -0,0 +1,64 @@
+import { buildCartView, stockStatusOf } from "../cartView";
+import { reservationStore } from "../reservations/reservationStore";
+
+describe("cartView", () => {
+	beforeEach(() => {
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+	});
+
+	// Test each stock status
+	it("should classify stock against the line quantity", () => {
+		expect(stockStatusOf(0, 1, 5)).toBe("out_of_stock");
+		expect(stockStatusOf(2, 3, 5)).toBe("insufficient_stock");
+		expect(stockStatusOf(5, 3, 5)).toBe("low_stock");
+		expect(stockStatusOf(20, 3, 5)).toBe("in_stock");
+	});
+
+	// Test joining lines with inventory
+	it("should enrich lines and total the cart", () => {
+		reservationStore.hold(2, 1, 8);
+		const view = buildCartView(
+			1,
+			[
+				{ id: 1, user_id: 1, inventory_id: 1, quantity: 3 },
+				{ id: 2, user_id: 1, inventory_id: 2, quantity: 1 },
+			],
+			new Map([
+				[
+					"1",
+					{
+						id: 1,
+						name: "Hop Harbour IPA",
+						style: "IPA",
+						abv: 6.5,
+						price: 3.99,
+						stockQuantity: 10,
+						imageUrl: "https://img.example/ipa.png",
+					},
+				],
+			])
+		);
+
+		expect(view).toEqual({
+			items: [
+				{
+					id: 1,
+					user_id: 1,
+					inventory_id: 1,
+					quantity: 3,
+					name: "Hop Harbour IPA",
+					style: "IPA",
+					abv: 6.5,
+					unit_price: 3.99,
+					image_url: "https://img.example/ipa.png",
+					stock_status: "insufficient_stock",
+					line_subtotal: 11.97,
+				},
+				{ id: 2, user_id: 1, inventory_id: 2, quantity: 1 },
+			],
+			item_count: 4,
+			subtotal: 11.97,
+		});
+	});
+});
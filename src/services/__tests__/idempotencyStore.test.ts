@@ -0,0 +1,56 @@
+import { IdempotencyStore } from "../idempotencyStore";
+
+describe("IdempotencyStore", () => {
+	let store: IdempotencyStore;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+		store = new IdempotencyStore(60_000);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	// Test the first use, the in-flight window and the replay
+	it("should claim a new key and replay its stored response", () => {
+		expect(store.begin("1", "k1", "a")).toEqual({ state: "new" });
+		expect(store.begin("1", "k1", "a")).toEqual({ state: "in_progress" });
+
+		store.complete("1", "k1", { status: 201, body: { id: 5 } });
+
+		expect(store.begin("1", "k1", "a")).toEqual({
+			state: "replay",
+			response: { status: 201, body: { id: 5 } },
+		});
+	});
+
+	// Test a different payload under the same key
+	it("should report a mismatch when the payload differs", () => {
+		store.begin("1", "k1", "a");
+
+		expect(store.begin("1", "k1", "b")).toEqual({ state: "mismatch" });
+	});
+
+	// Test keys are scoped per user
+	it("should keep the same key separate for different users", () => {
+		store.begin("1", "k1", "a");
+
+		expect(store.begin("2", "k1", "b")).toEqual({ state: "new" });
+	});
+
+	// Test abandoning and expiry
+	it("should free abandoned and expired keys", () => {
+		store.begin("1", "k1", "a");
+		store.abandon("1", "k1");
+		expect(store.begin("1", "k1", "b")).toEqual({ state: "new" });
+
+		store.complete("1", "k1", { status: 200, body: {} });
+		store.abandon("1", "k1");
+		expect(store.begin("1", "k1", "b").state).toBe("replay");
+
+		jest.advanceTimersByTime(60_000);
+		expect(store.begin("1", "k1", "c")).toEqual({ state: "new" });
+	});
+});
@@ -0,0 +1,50 @@
+import { InventoryCache } from "../inventoryCache";
+
+describe("InventoryCache", () => {
+	const item = (id: number) => ({ id, price: 5, stockQuantity: 10 });
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	// Test fresh, stale and expired reads
+	it("should go stale after the TTL and expire after the stale window", () => {
+		const cache = new InventoryCache(1000, 2000, 10);
+		cache.set(1, item(1));
+
+		expect(cache.get(1)).toEqual({ value: item(1), fresh: true });
+		jest.advanceTimersByTime(1500);
+		expect(cache.get(1)).toEqual({ value: item(1), fresh: false });
+		jest.advanceTimersByTime(1500);
+		expect(cache.get(1)).toBeUndefined();
+	});
+
+	// Test the size bound evicts the least recently used entry
+	it("should evict the least recently used entry", () => {
+		const cache = new InventoryCache(1000, 0, 2);
+		cache.set(1, item(1));
+		cache.set(2, item(2));
+		cache.get(1);
+		cache.set(3, item(3));
+
+		expect(cache.get(2)).toBeUndefined();
+		expect(cache.get(1)?.value).toEqual(item(1));
+		expect(cache.size).toBe(2);
+	});
+
+	// Test invalidation
+	it("should invalidate single entries or everything", () => {
+		const cache = new InventoryCache(1000, 0, 10);
+		cache.set(1, item(1));
+		cache.set(2, item(2));
+
+		expect(cache.invalidate("1")).toBe(true);
+		expect(cache.invalidate(1)).toBe(false);
+		expect(cache.clear()).toBe(1);
+		expect(cache.size).toBe(0);
+	});
+});
@@ -0,0 +1,167 @@
+import axios from "axios";
+import { config } from "../../config/config";
+import { HttpBreweryApiClient } from "../../ports/brewery/httpBreweryApiClient";
+import { upstreamClient } from "../../ports/http/upstreamClient";
+import { InventoryCache } from "../inventoryCache";
+import { InventoryLoader } from "../inventoryLoader";
+
+// Mock axios for API calls
+jest.mock("axios", () => ({
+	get: jest.fn(),
+	post: jest.fn(),
+}));
+
+describe("InventoryLoader", () => {
+	let cache: InventoryCache;
+
+	beforeEach(() => {
+		jest.resetAllMocks();
+		config.upstreamRetries = 0;
+		upstreamClient.resetCircuit();
+		cache = new InventoryCache(30_000, 60_000, 100);
+	});
+
+	// Test the concurrency limit
+	it("should never run more lookups at once than the limit", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		(axios.get as jest.Mock).mockImplementation(async (url: string) => {
+			inFlight++;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await new Promise((resolve) => setImmediate(resolve));
+			inFlight--;
+			return { data: { id: Number(url.split("/").pop()) } };
+		});
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			false,
+			cache
+		);
+
+		const { items, failures } = await loader.load([1, 2, 3, 4, 5, 1]);
+
+		expect(maxInFlight).toBe(2);
+		expect(axios.get).toHaveBeenCalledTimes(5);
+		expect(items.size).toBe(5);
+		expect(failures).toEqual([]);
+	});
+
+	// Test the batch endpoint
+	it("should use the batch endpoint and report missing items", async () => {
+		(axios.post as jest.Mock).mockResolvedValueOnce({
+			data: [{ id: 1, price: 3 }],
+		});
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			true,
+			cache
+		);
+
+		const { items, failures } = await loader.load([1, 2], "Bearer t");
+
+		expect(axios.post).toHaveBeenCalledWith(
+			"http://upstream/api/inventory/batch",
+			{ ids: [1, 2] },
+			expect.objectContaining({ headers: { Authorization: "Bearer t" } })
+		);
+		expect(items.get("1")).toEqual({ id: 1, price: 3 });
+		expect(failures).toEqual([
+			expect.objectContaining({ inventory_id: 2, status: 404 }),
+		]);
+	});
+
+	// Test falling back when the upstream has no batch route
+	it("should fall back to single lookups when batch is missing", async () => {
+		(axios.post as jest.Mock).mockRejectedValue({
+			response: { status: 404 },
+		});
+		(axios.get as jest.Mock).mockResolvedValue({ data: { price: 1 } });
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			true,
+			cache
+		);
+
+		await loader.load([1, 2]);
+		await loader.load([3, 4]);
+
+		// The batch route is only tried once
+		expect(axios.post).toHaveBeenCalledTimes(1);
+		expect(axios.get).toHaveBeenCalledTimes(4);
+	});
+
+	// Test cached reads and forced fresh reads
+	it("should serve cached items but always refetch for fresh reads", async () => {
+		(axios.get as jest.Mock).mockResolvedValue({ data: { price: 2 } });
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			false,
+			cache
+		);
+
+		await loader.load([1]);
+		await loader.load([1]);
+		expect(axios.get).toHaveBeenCalledTimes(1);
+
+		await loader.fetchFresh(1);
+		expect(axios.get).toHaveBeenCalledTimes(2);
+	});
+
+	// Test bulk fresh reads skip the cache but keep the batch route
+	it("should load several items fresh in one batch request", async () => {
+		(axios.get as jest.Mock).mockResolvedValue({ data: { price: 2 } });
+		(axios.post as jest.Mock).mockResolvedValue({
+			data: [
+				{ id: 1, price: 4 },
+				{ id: 2, price: 5 },
+			],
+		});
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			true,
+			cache
+		);
+		await loader.load([1]);
+
+		const { items } = await loader.loadFresh([1, 2, 2]);
+
+		expect(axios.post).toHaveBeenCalledTimes(1);
+		expect(axios.post).toHaveBeenCalledWith(
+			"http://upstream/api/inventory/batch",
+			{ ids: [1, 2] },
+			expect.anything()
+		);
+		expect(items.get("1")).toEqual({ id: 1, price: 4 });
+		expect(cache.get(1)?.value).toEqual({ id: 1, price: 4 });
+	});
+
+	// Test stale entries are served while a refresh runs
+	it("should revalidate stale entries in the background", async () => {
+		jest.useFakeTimers();
+		(axios.get as jest.Mock)
+			.mockResolvedValueOnce({ data: { price: 2 } })
+			.mockResolvedValueOnce({ data: { price: 3 } });
+		const loader = new InventoryLoader(
+			new HttpBreweryApiClient("http://upstream"),
+			2,
+			false,
+			cache
+		);
+
+		await loader.load([1]);
+		jest.advanceTimersByTime(45_000);
+		const stale = await loader.load([1]);
+
+		// The stale value comes back straight away
+		expect(stale.items.get("1")).toEqual({ price: 2 });
+		expect(axios.get).toHaveBeenCalledTimes(2);
+		await jest.runAllTimersAsync();
+		expect(cache.get(1)).toEqual({ value: { price: 3 }, fresh: true });
+		jest.useRealTimers();
+	});
+});
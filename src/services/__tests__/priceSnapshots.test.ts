@@ -0,0 +1,55 @@
+import { PriceSnapshotStore } from "../priceSnapshots";
+
+describe("PriceSnapshotStore", () => {
+	let store: PriceSnapshotStore;
+
+	beforeEach(() => {
+		store = new PriceSnapshotStore();
+	});
+
+	// Test increases and decreases
+	it("should flag price changes in either direction", () => {
+		store.record(1, 1, 4);
+		store.record(1, 2, 10);
+
+		expect(store.changeFor(1, 1, 4.5)).toEqual({
+			inventory_id: 1,
+			direction: "increase",
+			old_price: 4,
+			new_price: 4.5,
+		});
+		expect(store.changeFor(1, 2, 8)?.direction).toBe("decrease");
+		expect(store.changeFor(1, 1, 4)).toBeUndefined();
+	});
+
+	// Test lines without a snapshot
+	it("should not flag items added before snapshots were recorded", () => {
+		expect(store.changeFor(1, 3, 9)).toBeUndefined();
+	});
+
+	// Test one change per item
+	it("should report each item once across duplicate lines", () => {
+		store.record(1, 1, 4);
+
+		expect(
+			store.changesFor(1, [
+				{ inventory_id: 1, price: 5 },
+				{ inventory_id: 1, price: 5 },
+			])
+		).toHaveLength(1);
+	});
+
+	// Test releasing snapshots
+	it("should release one item or a whole user", () => {
+		store.record(1, 1, 4);
+		store.record(1, 2, 4);
+		store.record(11, 1, 4);
+
+		store.release(1, 1);
+		expect(store.get(1, 1)).toBeUndefined();
+
+		store.releaseAll(1);
+		expect(store.get(1, 2)).toBeUndefined();
+		expect(store.get(11, 1)).toBe(4);
+	});
+});
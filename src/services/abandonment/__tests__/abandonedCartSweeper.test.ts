@@ -0,0 +1,146 @@
+import { HttpBreweryApiClient } from "../../../ports/brewery/httpBreweryApiClient";
+import { InMemoryBreweryApiClient } from "../../../ports/brewery/inMemoryBreweryApiClient";
+import { InMemoryEventPublisher } from "../../../ports/events/inMemoryEventPublisher";
+import { UpstreamClient } from "../../../ports/http/upstreamClient";
+import { InventoryCache } from "../../inventoryCache";
+import { InventoryLoader } from "../../inventoryLoader";
+import { AbandonedCartSweeper } from "../abandonedCartSweeper";
+import { CartActivityStore } from "../cartActivityStore";
+
+describe("AbandonedCartSweeper", () => {
+	const hour = 3600 * 1000;
+	const start = Date.parse("2026-10-19T12:00:00.000Z");
+	let brewery: InMemoryBreweryApiClient;
+	let publisher: InMemoryEventPublisher;
+	let activity: CartActivityStore;
+	let sweeper: AbandonedCartSweeper;
+
+	beforeEach(async () => {
+		brewery = new InMemoryBreweryApiClient([
+			{ id: 1, name: "Hop Harbour IPA", price: 4, stockQuantity: 10 },
+			{ id: 2, name: "Dockside Stout", price: 6.5, stockQuantity: 10 },
+		]);
+		publisher = new InMemoryEventPublisher();
+		activity = new CartActivityStore();
+		sweeper = new AbandonedCartSweeper(
+			brewery,
+			new InventoryLoader(brewery, 2, false, new InventoryCache()),
+			publisher,
+			activity,
+			[3600, 86400, 259200]
+		);
+		await brewery.addCartItem({ user_id: 1, inventory_id: 1, quantity: 2 });
+		await brewery.addCartItem({ user_id: 1, inventory_id: 2, quantity: 1 });
+		activity.touch(1, start);
+	});
+
+	// Test a cart idle past the first threshold
+	it("should publish CartAbandoned with the cart contents and value", async () => {
+		expect(await sweeper.sweep(start + hour - 1000)).toBe(0);
+
+		expect(await sweeper.sweep(start + hour)).toBe(1);
+
+		const [event] = publisher.events("CartAbandoned");
+		expect(event).toEqual({
+			id: expect.any(String),
+			type: "CartAbandoned",
+			occurred_at: "2026-10-19T13:00:00.000Z",
+			payload: {
+				user_id: 1,
+				threshold_seconds: 3600,
+				idle_seconds: 3600,
+				last_activity_at: "2026-10-19T12:00:00.000Z",
+				items: [
+					{
+						inventory_id: 1,
+						name: "Hop Harbour IPA",
+						quantity: 2,
+						unit_price: 4,
+						line_subtotal: 8,
+					},
+					{
+						inventory_id: 2,
+						name: "Dockside Stout",
+						quantity: 1,
+						unit_price: 6.5,
+						line_subtotal: 6.5,
+					},
+				],
+				item_count: 3,
+				value: 14.5,
+			},
+		});
+	});
+
+	// Test each threshold is reported once
+	it("should report each threshold once until the cart is touched again", async () => {
+		await sweeper.sweep(start + hour);
+		await sweeper.sweep(start + 2 * hour);
+		await sweeper.sweep(start + 24 * hour);
+		expect(
+			publisher
+				.events()
+				.map((event: any) => event.payload.threshold_seconds)
+		).toEqual([3600, 86400]);
+
+		activity.touch(1, start + 25 * hour);
+		await sweeper.sweep(start + 26 * hour);
+		expect(publisher.events()).toHaveLength(3);
+	});
+
+	// Test catching up after a long gap
+	it("should report only the largest threshold when several are due", async () => {
+		await sweeper.sweep(start + 80 * hour);
+
+		expect(publisher.events()).toHaveLength(1);
+		expect((publisher.events()[0].payload as any).threshold_seconds).toBe(
+			259200
+		);
+		await sweeper.sweep(start + 81 * hour);
+		expect(publisher.events()).toHaveLength(1);
+	});
+
+	// Test empty carts are dropped
+	it("should stop tracking a cart that has been emptied", async () => {
+		await brewery.clearCart(1);
+
+		expect(await sweeper.sweep(start + hour)).toBe(0);
+		expect(activity.get(1)).toBeUndefined();
+	});
+
+	// Test failed publishes are retried
+	it("should retry on the next sweep when publishing fails", async () => {
+		jest.spyOn(console, "error").mockImplementation(() => {});
+		jest.spyOn(publisher, "publish").mockRejectedValueOnce(
+			new Error("broker down")
+		);
+
+		expect(await sweeper.sweep(start + hour)).toBe(0);
+		expect(await sweeper.sweep(start + hour + 1000)).toBe(1);
+	});
+
+	// Test the sweep reads carts with the service token
+	it("should read carts upstream with the service token", async () => {
+		const http = {
+			get: jest.fn().mockResolvedValue({ data: [] }),
+		} as unknown as UpstreamClient;
+		const upstream = new HttpBreweryApiClient(
+			"http://brewery",
+			http,
+			"service-token"
+		);
+		sweeper = new AbandonedCartSweeper(
+			upstream,
+			new InventoryLoader(upstream, 2, false, new InventoryCache()),
+			publisher,
+			activity,
+			[3600]
+		);
+
+		await sweeper.sweep(start + hour);
+
+		expect(http.get).toHaveBeenCalledWith("http://brewery/api/cart/1", {
+			headers: { Authorization: "Bearer service-token" },
+		});
+	});
+});
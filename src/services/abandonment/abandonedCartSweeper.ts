@@ -0,0 +1,127 @@
+import { config } from "../../config/config";
+import { breweryApiClient } from "../../ports/brewery";
+import { BreweryApiClient } from "../../ports/brewery/breweryApiClient";
+import { eventPublisher } from "../../ports/events";
+import { EventPublisher, createEvent } from "../../ports/events/eventPublisher";
+import { EnrichedCartLine, buildCartView } from "../cartView";
+import { CartAbandoned } from "../events/cartEvents";
+import { InventoryLoader } from "../inventoryLoader";
+import {
+	CartActivity,
+	CartActivityStore,
+	cartActivityStore,
+} from "./cartActivityStore";
+
+export class AbandonedCartSweeper {
+	private timer?: NodeJS.Timeout;
+	private sweeping = false;
+
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly publisher: EventPublisher = eventPublisher,
+		private readonly activity: CartActivityStore = cartActivityStore,
+		private readonly thresholdsSeconds: number[] = config.abandonedCartThresholdsSeconds
+	) {}
+
+	// Returns how many CartAbandoned events were published.
+	async sweep(now: number = Date.now()): Promise<number> {
+		if (this.sweeping) return 0;
+		this.sweeping = true;
+		let published = 0;
+		try {
+			for (const activity of this.activity.list()) {
+				const idleSeconds = Math.floor(
+					(now - activity.lastActivityAt) / 1000
+				);
+				const due = this.thresholdsSeconds.filter(
+					(threshold) =>
+						idleSeconds >= threshold &&
+						!activity.flaggedThresholds.includes(threshold)
+				);
+				if (due.length === 0) continue;
+				try {
+					if (await this.report(activity, idleSeconds, due, now)) {
+						published++;
+					}
+				} catch (error: any) {
+					// Left unflagged, so the next sweep tries again.
+					console.error(
+						`Error reporting abandoned cart for user ${activity.userId}:`,
+						error.response?.data || error.message
+					);
+				}
+			}
+		} finally {
+			this.sweeping = false;
+		}
+		return published;
+	}
+
+	start(
+		intervalMs: number = config.abandonedCartSweepIntervalSeconds * 1000
+	): void {
+		this.stop();
+		this.timer = setInterval(() => {
+			this.sweep().then((published) => {
+				if (published > 0) {
+					console.log(`Flagged ${published} abandoned carts`);
+				}
+			});
+		}, intervalMs);
+		this.timer.unref();
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+	}
+
+	// A cart idle past several thresholds at once (say, after downtime) is
+	// reported once, for the largest of them.
+	private async report(
+		activity: CartActivity,
+		idleSeconds: number,
+		due: number[],
+		now: number
+	): Promise<boolean> {
+		// Runs outside any request, so the Brewery API client sends the
+		// service token (BREWERY_SERVICE_TOKEN) instead of a user's.
+		const items = await this.brewery.getCart(activity.userId);
+		if (items.length === 0) {
+			this.activity.clear(activity.userId);
+			return false;
+		}
+		const { items: inventory } = await this.inventoryLoader.load(
+			items.map((item) => item.inventory_id)
+		);
+		const view = buildCartView(activity.userId, items, inventory);
+		const payload: CartAbandoned = {
+			user_id: activity.userId,
+			threshold_seconds: Math.max(...due),
+			idle_seconds: idleSeconds,
+			last_activity_at: new Date(activity.lastActivityAt).toISOString(),
+			items: view.items.map((line) => {
+				const enriched = line as EnrichedCartLine;
+				return {
+					inventory_id: Number(line.inventory_id),
+					name: enriched.name,
+					quantity: line.quantity,
+					unit_price: enriched.unit_price,
+					line_subtotal: enriched.line_subtotal,
+				};
+			}),
+			item_count: view.item_count,
+			value: view.subtotal,
+		};
+		await this.publisher.publish(
+			createEvent("CartAbandoned", payload, new Date(now))
+		);
+		this.activity.markFlagged(activity.userId, due);
+		return true;
+	}
+}
+
+export const abandonedCartSweeper = new AbandonedCartSweeper();
@@ -0,0 +1,44 @@
+export interface CartActivity {
+	userId: number;
+	lastActivityAt: number;
+	// Idle thresholds (in seconds) already reported since the last activity.
+	flaggedThresholds: number[];
+}
+
+export class CartActivityStore {
+	private readonly activity = new Map<number, CartActivity>();
+
+	touch(userId: number, now: number = Date.now()): void {
+		this.activity.set(userId, {
+			userId,
+			lastActivityAt: now,
+			flaggedThresholds: [],
+		});
+	}
+
+	get(userId: number): CartActivity | undefined {
+		const activity = this.activity.get(userId);
+		return activity && { ...activity };
+	}
+
+	list(): CartActivity[] {
+		return [...this.activity.values()].map((activity) => ({
+			...activity,
+		}));
+	}
+
+	markFlagged(userId: number, thresholds: number[]): void {
+		const activity = this.activity.get(userId);
+		if (!activity) return;
+		activity.flaggedThresholds = [
+			...new Set([...activity.flaggedThresholds, ...thresholds]),
+		];
+	}
+
+	// An empty or checked-out cart has nothing left to abandon.
+	clear(userId: number): void {
+		this.activity.delete(userId);
+	}
+}
+
+export const cartActivityStore = new CartActivityStore();
@@ -0,0 +1,71 @@
+import { config } from "../config/config";
+
+export type AgeVerificationStatus = "verified" | "underage" | "unverified";
+
+export interface AgeClaims {
+	id: number;
+	birthdate?: string;
+	ageVerified?: boolean;
+}
+
+export interface AgeVerificationProvider {
+	getBirthdate(userId: number): Promise<string | undefined>;
+}
+
+// Keeps birthdates confirmed out of band (e.g. ID checked at the taproom)
+// for users whose tokens don't carry the claims.
+export class LocalAgeVerificationProvider implements AgeVerificationProvider {
+	private readonly birthdates = new Map<number, string>();
+
+	record(userId: number, birthdate: string): void {
+		this.birthdates.set(userId, birthdate);
+	}
+
+	async getBirthdate(userId: number): Promise<string | undefined> {
+		return this.birthdates.get(userId);
+	}
+}
+
+export const ageOn = (birthdate: string, today: Date = new Date()): number => {
+	const born = new Date(birthdate);
+	let age = today.getUTCFullYear() - born.getUTCFullYear();
+	const hadBirthday =
+		today.getUTCMonth() > born.getUTCMonth() ||
+		(today.getUTCMonth() === born.getUTCMonth() &&
+			today.getUTCDate() >= born.getUTCDate());
+	if (!hadBirthday) age--;
+	return age;
+};
+
+export class AgeVerifier {
+	constructor(
+		private readonly provider: AgeVerificationProvider,
+		readonly legalAge: number = config.legalDrinkingAge
+	) {}
+
+	async verify(user: AgeClaims): Promise<AgeVerificationStatus> {
+		const birthdate =
+			user.birthdate ?? (await this.provider.getBirthdate(user.id));
+		if (birthdate && !isNaN(Date.parse(birthdate))) {
+			return ageOn(birthdate) >= this.legalAge ? "verified" : "underage";
+		}
+		return user.ageVerified === true ? "verified" : "unverified";
+	}
+}
+
+export const ageVerificationErrors: Record<
+	Exclude<AgeVerificationStatus, "verified">,
+	{ message: string; code: string }
+> = {
+	underage: {
+		message: "You must be of legal drinking age to buy alcohol",
+		code: "AGE_RESTRICTED",
+	},
+	unverified: {
+		message: "Age verification is required to buy alcohol",
+		code: "AGE_VERIFICATION_REQUIRED",
+	},
+};
+
+export const localAgeVerificationProvider = new LocalAgeVerificationProvider();
+export const ageVerifier = new AgeVerifier(localAgeVerificationProvider);
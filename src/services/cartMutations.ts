@@ -0,0 +1,692 @@
+import { breweryApiClient } from "../ports/brewery";
+import { DomainEvent } from "../ports/events/eventPublisher";
+import {
+	BreweryApiClient,
+	CartItem,
+	InventoryItem,
+	MessageResponse,
+} from "../ports/brewery/breweryApiClient";
+import { cartActivityStore } from "./abandonment/cartActivityStore";
+import {
+	AgeClaims,
+	ageVerificationErrors,
+	ageVerifier,
+} from "./ageVerification";
+import { toPricedLine } from "./cartTotals";
+import { createCartEvent } from "./events/cartEvents";
+import { InventoryFailure, InventoryLoader } from "./inventoryLoader";
+import { LimitViolation, purchaseLimits } from "./limits/purchaseLimits";
+import { outboxStore } from "./outbox/outboxStore";
+import { priceSnapshotStore } from "./priceSnapshots";
+import { isAlcoholic } from "./productCategory";
+import { PricedLine } from "./promotions/promoEngine";
+import { reservationStore } from "./reservations/reservationStore";
+import { webhookDispatcher } from "./webhooks/webhookDispatcher";
+
+export type AddMode = "increment" | "replace";
+
+export type CartOperation =
+	| { op: "add"; inventory_id: number; quantity: number; mode?: AddMode }
+	| { op: "update"; id: number; quantity: number }
+	| { op: "remove"; id: number };
+
+export type BatchMode = "all_or_nothing" | "best_effort";
+
+// A change to one cart line that has passed every check and only needs
+// writing upstream.
+export interface CartChange {
+	action: CartOperation["op"];
+	userId: number;
+	inventoryId: number;
+	// Unset when the change creates a new line.
+	lineId?: number;
+	quantity: number;
+	previousQuantity: number;
+	// The user's quantity of the item across all lines once the change
+	// lands, which is what the stock hold covers.
+	itemQuantity: number;
+	unitPrice?: number;
+}
+
+export interface Rejection {
+	status: number;
+	body: Record<string, unknown>;
+}
+
+export type PlannedChange = { change: CartChange } | { rejection: Rejection };
+
+export interface OperationResult {
+	index: number;
+	op: CartOperation["op"];
+	status: number;
+	item?: CartItem;
+	message?: string;
+	// The body the single route would have answered with.
+	error?: Record<string, unknown>;
+}
+
+export interface BatchOutcome {
+	mode: BatchMode;
+	applied: boolean;
+	results: OperationResult[];
+}
+
+const reject = (status: number, body: Record<string, unknown>) => ({
+	rejection: { status, body },
+});
+
+const isSameItem = (inventoryId: number) => (item: CartItem) =>
+	item.inventory_id.toString() === inventoryId.toString();
+
+const missingField = (operation: CartOperation): string | undefined => {
+	const fields: Record<CartOperation["op"], string[]> = {
+		add: ["inventory_id", "quantity"],
+		update: ["id", "quantity"],
+		remove: ["id"],
+	};
+	const values: Record<string, unknown> = operation;
+	return fields[operation.op].find((field) => values[field] === undefined);
+};
+
+// Shared by the single add/update/remove routes and the batch route so
+// both apply the same rules: age gate, stock, holds and purchase limits.
+export class CartMutationService {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		// Named carts are checked like the live cart but leave stock holds,
+		// price snapshots and the purchase ledger alone.
+		private readonly liveCart: boolean = true
+	) {}
+
+	// pendingAdded counts units that earlier changes in the same batch add
+	// but the purchase ledger doesn't hold yet.
+	async planAdd(
+		user: AgeClaims,
+		input: { inventory_id: number; quantity: number; mode?: AddMode },
+		inventory: InventoryItem,
+		cart?: CartItem[],
+		authorization?: string,
+		pendingAdded = 0
+	): Promise<PlannedChange> {
+		if (isAlcoholic(inventory.category)) {
+			const status = await ageVerifier.verify(user);
+			if (status !== "verified") {
+				return reject(403, ageVerificationErrors[status]);
+			}
+		}
+		// Fetched only once the age gate has passed.
+		cart ??= await this.brewery.getCart(user.id, authorization);
+		const inventoryId = Number(input.inventory_id);
+		const sameItem = cart.filter(isSameItem(inventoryId));
+		// Adding an item already in the cart updates its first line
+		// rather than creating a duplicate.
+		const existing = sameItem[0];
+		const requested = Number(input.quantity);
+		const quantity =
+			existing && input.mode !== "replace"
+				? existing.quantity + requested
+				: requested;
+		return this.planLine(
+			"add",
+			user.id,
+			inventoryId,
+			inventory,
+			existing,
+			quantity,
+			cart,
+			authorization,
+			pendingAdded
+		);
+	}
+
+	// Without the cart the line is checked on its own, as the single
+	// update route does.
+	async planUpdate(
+		line: CartItem,
+		quantity: number,
+		inventory: InventoryItem,
+		cart?: CartItem[],
+		authorization?: string,
+		pendingAdded = 0
+	): Promise<PlannedChange> {
+		return this.planLine(
+			"update",
+			Number(line.user_id),
+			Number(line.inventory_id),
+			inventory,
+			line,
+			Number(quantity),
+			cart,
+			authorization,
+			pendingAdded
+		);
+	}
+
+	planRemove(line: CartItem, cart?: CartItem[]): { change: CartChange } {
+		const inventoryId = Number(line.inventory_id);
+		return {
+			change: {
+				action: "remove",
+				userId: Number(line.user_id),
+				inventoryId,
+				lineId: line.id,
+				quantity: 0,
+				previousQuantity: line.quantity,
+				itemQuantity: this.otherLinesQuantity(
+					cart ?? [],
+					inventoryId,
+					line.id
+				),
+			},
+		};
+	}
+
+	async write(
+		change: CartChange,
+		authorization?: string
+	): Promise<CartItem | MessageResponse> {
+		if (change.action === "remove") {
+			return this.brewery.removeCartItem(change.lineId!, authorization);
+		}
+		if (change.lineId === undefined) {
+			return this.brewery.addCartItem(
+				{
+					user_id: change.userId,
+					inventory_id: change.inventoryId,
+					quantity: change.quantity,
+				},
+				authorization
+			);
+		}
+		return this.brewery.updateCartItem(
+			change.lineId,
+			{ quantity: change.quantity },
+			authorization
+		);
+	}
+
+	// Local bookkeeping, run once the upstream write has succeeded. New
+	// lines only get their id from the write, so pass its result.
+	commit(change: CartChange, written?: CartItem | MessageResponse): void {
+		if (!this.liveCart) return;
+		const { userId, inventoryId } = change;
+		this.publish(
+			userId,
+			this.toEvent(change, change.lineId ?? (written as CartItem).id)
+		);
+		cartActivityStore.touch(userId);
+		purchaseLimits.recordAdded(
+			userId,
+			inventoryId,
+			change.quantity - change.previousQuantity
+		);
+		if (change.itemQuantity > 0) {
+			reservationStore.hold(userId, inventoryId, change.itemQuantity);
+		} else {
+			reservationStore.release(userId, inventoryId);
+		}
+		if (change.action === "add") {
+			priceSnapshotStore.record(userId, inventoryId, change.unitPrice!);
+		} else if (change.action === "remove") {
+			priceSnapshotStore.release(userId, inventoryId);
+		}
+	}
+
+	// Bookkeeping for a cleared cart, run once the upstream clear has
+	// succeeded.
+	commitClear(userId: number): void {
+		if (!this.liveCart) return;
+		reservationStore.releaseAll(userId);
+		priceSnapshotStore.releaseAll(userId);
+		cartActivityStore.clear(userId);
+		this.publish(
+			userId,
+			createCartEvent("CartCleared", { user_id: userId })
+		);
+	}
+
+	async batch(
+		user: AgeClaims,
+		operations: CartOperation[],
+		mode: BatchMode,
+		authorization?: string
+	): Promise<BatchOutcome> {
+		const cart = await this.brewery.getCart(user.id, authorization);
+		const inventory = await this.loadInventory(
+			operations,
+			cart,
+			authorization
+		);
+		// Planning runs against a working copy so later operations see the
+		// quantities earlier ones leave behind.
+		const working = [...cart];
+		const planned: { index: number; change: CartChange }[] = [];
+		// Units each item gains from planned changes that aren't in the
+		// purchase ledger yet, so later operations count them too.
+		const pendingAdded = new Map<number, number>();
+		const results: OperationResult[] = [];
+		for (const [index, operation] of operations.entries()) {
+			const plan = await this.planOperation(
+				user,
+				operation,
+				working,
+				inventory,
+				pendingAdded,
+				authorization
+			);
+			if ("rejection" in plan) {
+				results.push({
+					index,
+					op: operation.op,
+					status: plan.rejection.status,
+					error: plan.rejection.body,
+				});
+				continue;
+			}
+			if (mode === "all_or_nothing") {
+				// New lines get a placeholder id until they are written.
+				this.applyToCart(working, plan.change, -(planned.length + 1));
+				const { inventoryId, quantity, previousQuantity } = plan.change;
+				pendingAdded.set(
+					inventoryId,
+					(pendingAdded.get(inventoryId) ?? 0) +
+						Math.max(0, quantity - previousQuantity)
+				);
+				planned.push({ index, change: plan.change });
+				results.push({ index, op: operation.op, status: 0 });
+				continue;
+			}
+			try {
+				const written = await this.write(plan.change, authorization);
+				this.commit(plan.change, written);
+				this.applyToCart(
+					working,
+					plan.change,
+					(written as CartItem).id
+				);
+				results.push(this.toResult(index, plan.change, written));
+			} catch (error: any) {
+				results.push({
+					index,
+					op: operation.op,
+					status: error.response?.status || 502,
+					error: {
+						message:
+							error.response?.data?.message ||
+							"Error applying cart operation",
+					},
+				});
+			}
+		}
+		if (mode === "best_effort") {
+			return {
+				mode,
+				applied: results.some((result) => result.status < 400),
+				results,
+			};
+		}
+
+		if (planned.length < operations.length) {
+			for (const result of results) {
+				if (result.status !== 0) continue;
+				result.status = 424;
+				result.error = {
+					message:
+						"Not applied because another operation in the batch was rejected",
+				};
+			}
+			return { mode, applied: false, results };
+		}
+		const writes = await this.writeAll(
+			planned.map(({ change }) => change),
+			authorization
+		);
+		planned.forEach(({ index }, position) => {
+			const { change, written } = writes[position];
+			this.commit(change, written);
+			results[index] = this.toResult(index, change, written);
+		});
+		return { mode, applied: true, results };
+	}
+
+	// Writes every change in order; if one fails, the ones already written
+	// are rolled back before the error is rethrown. Each change comes back
+	// with placeholder line ids swapped for the ones the writes created.
+	private async writeAll(
+		changes: CartChange[],
+		authorization?: string
+	): Promise<{ change: CartChange; written: CartItem | MessageResponse }[]> {
+		const writes: {
+			change: CartChange;
+			written: CartItem | MessageResponse;
+		}[] = [];
+		const realIds = new Map<number, number>();
+		try {
+			for (const [index, planned] of changes.entries()) {
+				const change =
+					planned.lineId !== undefined && planned.lineId < 0
+						? { ...planned, lineId: realIds.get(planned.lineId) }
+						: planned;
+				const written = await this.write(change, authorization);
+				if (change.lineId === undefined) {
+					realIds.set(-(index + 1), (written as CartItem).id);
+				}
+				writes.push({ change, written });
+			}
+		} catch (error) {
+			for (const { change, written } of [...writes].reverse()) {
+				await this.undo(change, written, authorization);
+			}
+			throw error;
+		}
+		return writes;
+	}
+
+	private async undo(
+		change: CartChange,
+		written: CartItem | MessageResponse,
+		authorization?: string
+	): Promise<void> {
+		try {
+			if (change.lineId === undefined) {
+				await this.brewery.removeCartItem(
+					(written as CartItem).id,
+					authorization
+				);
+			} else if (change.action === "remove") {
+				await this.brewery.addCartItem(
+					{
+						user_id: change.userId,
+						inventory_id: change.inventoryId,
+						quantity: change.previousQuantity,
+					},
+					authorization
+				);
+			} else {
+				await this.brewery.updateCartItem(
+					change.lineId,
+					{ quantity: change.previousQuantity },
+					authorization
+				);
+			}
+		} catch (error: any) {
+			console.error(
+				`Error rolling back cart line for inventory ${change.inventoryId}:`,
+				error.response?.data || error.message
+			);
+		}
+	}
+
+	private async planOperation(
+		user: AgeClaims,
+		operation: CartOperation,
+		cart: CartItem[],
+		inventory: Map<number, InventoryItem | InventoryFailure>,
+		pendingAdded: Map<number, number>,
+		authorization?: string
+	): Promise<PlannedChange> {
+		const missing = missingField(operation);
+		if (missing) return reject(400, { message: `${missing} is required` });
+		const line =
+			operation.op === "add"
+				? undefined
+				: cart.find((item) => item.id === Number(operation.id));
+		if (operation.op !== "add" && !line) {
+			return reject(404, { message: "Cart item not found" });
+		}
+		if (operation.op === "remove") return this.planRemove(line!, cart);
+
+		const inventoryId = Number(
+			operation.op === "add" ? operation.inventory_id : line!.inventory_id
+		);
+		const data = inventory.get(inventoryId);
+		if (!data || "error" in data) {
+			return reject(data?.status ?? 500, {
+				message: data?.message ?? "Error fetching inventory",
+			});
+		}
+		return operation.op === "add"
+			? this.planAdd(
+					user,
+					operation,
+					data,
+					cart,
+					authorization,
+					pendingAdded.get(inventoryId)
+				)
+			: this.planUpdate(
+					line!,
+					operation.quantity,
+					data,
+					cart,
+					authorization,
+					pendingAdded.get(inventoryId)
+				);
+	}
+
+	// One fresh lookup per distinct item, however many operations touch it.
+	private async loadInventory(
+		operations: CartOperation[],
+		cart: CartItem[],
+		authorization?: string
+	): Promise<Map<number, InventoryItem | InventoryFailure>> {
+		const ids = operations.flatMap((operation) => {
+			if (operation.op === "add") return [Number(operation.inventory_id)];
+			const line = cart.find((item) => item.id === Number(operation.id));
+			return line && operation.op === "update"
+				? [Number(line.inventory_id)]
+				: [];
+		});
+		const inventory = new Map<number, InventoryItem | InventoryFailure>();
+		if (ids.length === 0) return inventory;
+		const { items, failures } = await this.inventoryLoader.loadFresh(
+			ids,
+			authorization
+		);
+		items.forEach((item, id) => inventory.set(Number(id), item));
+		failures.forEach((failure) =>
+			inventory.set(failure.inventory_id, failure)
+		);
+		return inventory;
+	}
+
+	private async planLine(
+		action: CartChange["action"],
+		userId: number,
+		inventoryId: number,
+		inventory: InventoryItem,
+		line: CartItem | undefined,
+		quantity: number,
+		cart?: CartItem[],
+		authorization?: string,
+		pendingAdded = 0
+	): Promise<PlannedChange> {
+		const otherLinesQuantity = this.otherLinesQuantity(
+			cart ?? [],
+			inventoryId,
+			line?.id
+		);
+		const available = reservationStore.availableStock(
+			inventoryId,
+			inventory.stockQuantity,
+			userId
+		);
+		if (available < quantity + otherLinesQuantity) {
+			return reject(400, { message: "Insufficient stock" });
+		}
+		const previousQuantity = line?.quantity ?? 0;
+		const violations = await this.checkPurchaseLimits(
+			userId,
+			inventoryId,
+			inventory,
+			quantity,
+			quantity - previousQuantity,
+			authorization,
+			line?.id,
+			cart,
+			pendingAdded
+		);
+		if (violations.length > 0) {
+			return reject(422, {
+				message: "Purchase limit exceeded",
+				violations,
+			});
+		}
+		return {
+			change: {
+				action,
+				userId,
+				inventoryId,
+				lineId: line?.id,
+				quantity,
+				previousQuantity,
+				itemQuantity: quantity + otherLinesQuantity,
+				unitPrice: inventory.price,
+			},
+		};
+	}
+
+	private async checkPurchaseLimits(
+		userId: number,
+		inventoryId: number,
+		inventory: InventoryItem,
+		quantity: number,
+		added: number,
+		authorization?: string,
+		excludeLineId?: number,
+		cart?: CartItem[],
+		pendingAdded = 0
+	): Promise<LimitViolation[]> {
+		let cartQuantity = 0;
+		let otherLines: PricedLine[] = [];
+		if (purchaseLimits.needsCart(inventoryId, inventory)) {
+			const items = (
+				cart ?? (await this.brewery.getCart(userId, authorization))
+			).filter((item) => item.id !== excludeLineId);
+			cartQuantity = items
+				.filter(isSameItem(inventoryId))
+				.reduce((sum, item) => sum + item.quantity, 0);
+			if (purchaseLimits.maxOrderVolumeLitres > 0) {
+				otherLines = await this.priceAllLines(
+					items.filter((item) => !isSameItem(inventoryId)(item)),
+					authorization
+				);
+			}
+		}
+		return purchaseLimits.check({
+			userId,
+			inventoryId,
+			inventory,
+			quantity: cartQuantity + quantity,
+			added,
+			pendingAdded,
+			otherLines,
+		});
+	}
+
+	// Surfaces the first failed lookup the same way a direct upstream call
+	// would, since a limit can't be checked against a partial cart.
+	private async priceAllLines(
+		items: CartItem[],
+		authorization?: string
+	): Promise<PricedLine[]> {
+		const { items: inventory, failures } = await this.inventoryLoader.load(
+			items.map((item) => item.inventory_id),
+			authorization
+		);
+		if (failures.length > 0) throw failures[0].error;
+		return items.flatMap((item) => {
+			const data = inventory.get(item.inventory_id.toString());
+			return data ? [toPricedLine(item, data)] : [];
+		});
+	}
+
+	private otherLinesQuantity(
+		cart: CartItem[],
+		inventoryId: number,
+		lineId?: number
+	): number {
+		return cart
+			.filter(
+				(item) => isSameItem(inventoryId)(item) && item.id !== lineId
+			)
+			.reduce((sum, item) => sum + item.quantity, 0);
+	}
+
+	private applyToCart(
+		cart: CartItem[],
+		change: CartChange,
+		newLineId: number
+	): void {
+		const index = cart.findIndex((item) => item.id === change.lineId);
+		if (change.action === "remove") {
+			cart.splice(index, 1);
+		} else if (change.lineId === undefined) {
+			cart.push({
+				id: newLineId,
+				user_id: change.userId,
+				inventory_id: change.inventoryId,
+				quantity: change.quantity,
+			});
+		} else {
+			cart[index] = { ...cart[index], quantity: change.quantity };
+		}
+	}
+
+	// Webhook deliveries are queued here rather than by the outbox relay, so
+	// an event publisher outage can't hold partner webhooks back.
+	private publish(userId: number, event: DomainEvent): void {
+		outboxStore.add(userId.toString(), [event]);
+		webhookDispatcher.enqueue(event);
+	}
+
+	private toEvent(change: CartChange, itemId: number) {
+		const line = {
+			user_id: change.userId,
+			item_id: itemId,
+			inventory_id: change.inventoryId,
+		};
+		if (change.action === "remove") {
+			return createCartEvent("CartItemRemoved", {
+				...line,
+				quantity: change.previousQuantity,
+			});
+		}
+		if (change.lineId === undefined) {
+			return createCartEvent("CartItemAdded", {
+				...line,
+				quantity: change.quantity,
+				unit_price: change.unitPrice,
+			});
+		}
+		return createCartEvent("CartItemQuantityChanged", {
+			...line,
+			previous_quantity: change.previousQuantity,
+			quantity: change.quantity,
+		});
+	}
+
+	private toResult(
+		index: number,
+		change: CartChange,
+		written: CartItem | MessageResponse
+	): OperationResult {
+		if (change.action === "remove") {
+			return {
+				index,
+				op: change.action,
+				status: 200,
+				message: (written as MessageResponse).message,
+			};
+		}
+		return {
+			index,
+			op: change.action,
+			status: change.lineId === undefined ? 201 : 200,
+			item: written as CartItem,
+		};
+	}
+}
@@ -0,0 +1,131 @@
+import { config } from "../config/config";
+import { CartItem, InventoryItem } from "../ports/brewery/breweryApiClient";
+import {
+	DepositLine,
+	depositCalculator,
+	depositTotalOf,
+} from "./deposits/depositCalculator";
+import { productCategory } from "./productCategory";
+import { promotionCatalog } from "./promotions/catalog";
+import {
+	AppliedDiscount,
+	PricedLine,
+	applyDiscounts,
+	evaluatePromotion,
+	roundMoney,
+	subtotalOf,
+} from "./promotions/promoEngine";
+import { promoStore } from "./promotions/promoStore";
+import { TaxLine, TaxableLine, taxCalculator } from "./tax/taxCalculator";
+
+export interface CartTotals {
+	// ISO 4217 code the amounts are in.
+	currency: string;
+	subtotal: number;
+	discounts: AppliedDiscount[];
+	promo_error?: { code: string; message: string };
+	province: string;
+	taxes: TaxLine[];
+	tax_total: number;
+	deposits: DepositLine[];
+	deposit_total: number;
+	total: number;
+}
+
+const resolveDiscounts = (
+	userId: number,
+	lines: PricedLine[]
+): Pick<CartTotals, "discounts" | "promo_error"> => {
+	const code = promoStore.getAppliedCode(userId);
+	const promotion = code ? promotionCatalog.find(code) : undefined;
+	if (!code || !promotion) return { discounts: [] };
+
+	const evaluation = evaluatePromotion(promotion, lines, {
+		usageCount: promoStore.usageCount(userId, code),
+	});
+	if (!evaluation.eligible) {
+		return {
+			discounts: [],
+			promo_error: { code: evaluation.code, message: evaluation.message },
+		};
+	}
+	return { discounts: evaluation.discounts };
+};
+
+// Discounts reduce the taxable amount: line discounts come off their own line
+// and order-level discounts are spread across lines by value.
+const toTaxableLines = (
+	lines: PricedLine[],
+	discounts: AppliedDiscount[]
+): TaxableLine[] => {
+	const netAmounts = lines.map(
+		(line) =>
+			line.price * line.quantity -
+			discounts
+				.filter((d) => d.inventory_id === line.inventory_id)
+				.reduce((sum, d) => sum + d.amount, 0)
+	);
+	const netTotal = netAmounts.reduce((sum, amount) => sum + amount, 0);
+	const orderDiscount = discounts
+		.filter((d) => d.inventory_id === undefined)
+		.reduce((sum, d) => sum + d.amount, 0);
+	return lines.map((line, i) => ({
+		category: productCategory(line.category),
+		quantity: line.quantity,
+		volumeMl: line.volumeMl,
+		amount: Math.max(
+			0,
+			netAmounts[i] -
+				(netTotal > 0 ? (orderDiscount * netAmounts[i]) / netTotal : 0)
+		),
+	}));
+};
+
+export const toPricedLine = (
+	item: Pick<CartItem, "inventory_id" | "quantity">,
+	inventory: InventoryItem
+): PricedLine => ({
+	inventory_id: item.inventory_id,
+	quantity: item.quantity,
+	price: inventory.price,
+	style: inventory.style,
+	category: inventory.category,
+	volumeMl: inventory.volumeMl,
+	containerType: inventory.containerType,
+	containerSizeMl: inventory.containerSizeMl,
+	unitsPerPack: inventory.unitsPerPack,
+});
+
+export const calculateCartTotals = (
+	userId: number,
+	lines: PricedLine[],
+	province: string = config.defaultProvince,
+	withPromotion: boolean = true
+): CartTotals => {
+	const subtotal = subtotalOf(lines);
+	const { discounts, promo_error } = withPromotion
+		? resolveDiscounts(userId, lines)
+		: { discounts: [], promo_error: undefined };
+	const taxes = taxCalculator.calculate(
+		province,
+		toTaxableLines(lines, discounts)
+	);
+	const taxTotal = roundMoney(taxes.reduce((sum, t) => sum + t.amount, 0));
+	// Container deposits are refundable and are not taxed.
+	const deposits = depositCalculator.calculate(province, lines);
+	const depositTotal = depositTotalOf(deposits);
+	return {
+		currency: config.baseCurrency,
+		subtotal,
+		discounts,
+		...(promo_error && { promo_error }),
+		province: province.toUpperCase(),
+		taxes,
+		tax_total: taxTotal,
+		deposits,
+		deposit_total: depositTotal,
+		total: roundMoney(
+			applyDiscounts(subtotal, discounts) + taxTotal + depositTotal
+		),
+	};
+};
@@ -0,0 +1,235 @@
+import { breweryApiClient } from "../ports/brewery";
+import {
+	BreweryApiClient,
+	CartItem,
+	InventoryItem,
+} from "../ports/brewery/breweryApiClient";
+import { CartChange, CartMutationService } from "./cartMutations";
+import { toPricedLine } from "./cartTotals";
+import { InventoryLoader } from "./inventoryLoader";
+import { LimitViolation, purchaseLimits } from "./limits/purchaseLimits";
+import { PriceChange, priceSnapshotStore } from "./priceSnapshots";
+import { reservationStore } from "./reservations/reservationStore";
+
+export type CartIssue =
+	| { code: "ITEM_DISCONTINUED"; message: string }
+	| { code: "OUT_OF_STOCK"; message: string }
+	| { code: "STOCK_REDUCED"; message: string; available: number }
+	| { code: "PRICE_CHANGED"; message: string; price_change: PriceChange }
+	| { code: "LIMIT_EXCEEDED"; message: string; limit: number };
+
+export type CartFix =
+	| { action: "remove" }
+	| { action: "set_quantity"; quantity: number };
+
+export interface LineValidation extends CartItem {
+	issues: CartIssue[];
+	// What auto-fix would do to the line; price changes need no fix.
+	fix?: CartFix;
+}
+
+export interface CartValidation {
+	valid: boolean;
+	lines: LineValidation[];
+	// Problems with the cart as a whole, such as the order volume cap.
+	cart_issues: LimitViolation[];
+}
+
+export interface AppliedFix {
+	id: number;
+	inventory_id: number;
+	action: CartFix["action"];
+	quantity?: number;
+}
+
+const fixedQuantity = (line: LineValidation): number => {
+	if (!line.fix) return line.quantity;
+	return line.fix.action === "remove" ? 0 : line.fix.quantity;
+};
+
+export class CartValidationService {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async validate(
+		userId: number,
+		authorization?: string
+	): Promise<{ items: CartItem[]; validation: CartValidation }> {
+		const items = await this.brewery.getCart(userId, authorization);
+		const inventory = await this.fetchInventory(items, authorization);
+		return { items, validation: validateCart(userId, items, inventory) };
+	}
+
+	// Each fix goes through the cart mutation service's bookkeeping, so it
+	// moves holds and publishes the same events as a manual edit.
+	async applyFixes(
+		userId: number,
+		validation: CartValidation,
+		authorization?: string
+	): Promise<AppliedFix[]> {
+		// What each item's lines add up to once every fix has landed, which
+		// is what its stock hold covers.
+		const remaining = new Map<number, number>();
+		for (const line of validation.lines) {
+			const inventoryId = Number(line.inventory_id);
+			remaining.set(
+				inventoryId,
+				(remaining.get(inventoryId) ?? 0) + fixedQuantity(line)
+			);
+		}
+		const applied: AppliedFix[] = [];
+		for (const line of validation.lines) {
+			if (!line.fix) continue;
+			const inventoryId = Number(line.inventory_id);
+			const quantity = fixedQuantity(line);
+			const change: CartChange = {
+				action: line.fix.action === "remove" ? "remove" : "update",
+				userId,
+				inventoryId,
+				lineId: line.id,
+				quantity,
+				previousQuantity: line.quantity,
+				itemQuantity: remaining.get(inventoryId) ?? 0,
+			};
+			const written = await this.cartMutations.write(
+				change,
+				authorization
+			);
+			this.cartMutations.commit(change, written);
+			applied.push({
+				id: line.id,
+				inventory_id: inventoryId,
+				action: line.fix.action,
+				...(line.fix.action === "set_quantity" && { quantity }),
+			});
+		}
+		return applied;
+	}
+
+	// Reads stock fresh; a 404 means the item has been discontinued.
+	private async fetchInventory(
+		items: CartItem[],
+		authorization?: string
+	): Promise<Map<number, InventoryItem | undefined>> {
+		const ids = [
+			...new Set(items.map((item) => Number(item.inventory_id))),
+		];
+		const fetched = await Promise.all(
+			ids.map((id) =>
+				this.inventoryLoader
+					.fetchFresh(id, authorization)
+					.catch((error) => {
+						if (error.response?.status === 404) return undefined;
+						throw error;
+					})
+			)
+		);
+		return new Map(ids.map((id, i) => [id, fetched[i]]));
+	}
+}
+
+// Stock and per-order limits are shared out across every line for the same
+// item in cart order, so only the later duplicates get clamped.
+export const validateCart = (
+	userId: number,
+	items: CartItem[],
+	inventory: Map<number, InventoryItem | undefined>
+): CartValidation => {
+	const stockLeft = new Map<number, number>();
+	const limitLeft = new Map<number, number>();
+	const lines = items.map((item): LineValidation => {
+		const inventoryId = Number(item.inventory_id);
+		const data = inventory.get(inventoryId);
+		if (!data || data.discontinued) {
+			return {
+				...item,
+				issues: [
+					{
+						code: "ITEM_DISCONTINUED",
+						message: "Item is no longer available",
+					},
+				],
+				fix: { action: "remove" },
+			};
+		}
+
+		const issues: CartIssue[] = [];
+		let quantity = item.quantity;
+		const available =
+			stockLeft.get(inventoryId) ??
+			reservationStore.availableStock(
+				inventoryId,
+				data.stockQuantity,
+				userId
+			);
+		if (available <= 0) {
+			issues.push({ code: "OUT_OF_STOCK", message: "Out of stock" });
+			quantity = 0;
+		} else if (available < quantity) {
+			issues.push({
+				code: "STOCK_REDUCED",
+				message: `Only ${available} left in stock`,
+				available,
+			});
+			quantity = available;
+		}
+		stockLeft.set(inventoryId, Math.max(0, available - item.quantity));
+
+		const { maxPerOrder } = purchaseLimits.rulesFor(inventoryId, data);
+		if (maxPerOrder !== undefined) {
+			const allowed = limitLeft.get(inventoryId) ?? maxPerOrder;
+			if (item.quantity > allowed) {
+				issues.push({
+					code: "LIMIT_EXCEEDED",
+					message: `Limit of ${maxPerOrder} per order for this item`,
+					limit: maxPerOrder,
+				});
+				quantity = Math.min(quantity, allowed);
+			}
+			limitLeft.set(inventoryId, Math.max(0, allowed - item.quantity));
+		}
+
+		const priceChange = priceSnapshotStore.changeFor(
+			userId,
+			inventoryId,
+			data.price
+		);
+		if (priceChange) {
+			issues.push({
+				code: "PRICE_CHANGED",
+				message: `Price ${priceChange.direction === "increase" ? "increased" : "decreased"} from ${priceChange.old_price} to ${priceChange.new_price}`,
+				price_change: priceChange,
+			});
+		}
+
+		let fix: CartFix | undefined;
+		if (quantity <= 0) fix = { action: "remove" };
+		else if (quantity < item.quantity) {
+			fix = { action: "set_quantity", quantity };
+		}
+		return { ...item, issues, ...(fix && { fix }) };
+	});
+
+	const volumeViolation = purchaseLimits.checkOrderVolume(
+		items.flatMap((item) => {
+			const data = inventory.get(Number(item.inventory_id));
+			return data ? [toPricedLine(item, data)] : [];
+		})
+	);
+	const cart_issues = volumeViolation ? [volumeViolation] : [];
+	return {
+		valid:
+			cart_issues.length === 0 &&
+			lines.every((line) => line.issues.length === 0),
+		lines,
+		cart_issues,
+	};
+};
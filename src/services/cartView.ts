@@ -0,0 +1,86 @@
+import { config } from "../config/config";
+import { CartItem, InventoryItem } from "../ports/brewery/breweryApiClient";
+import { PriceChange, priceSnapshotStore } from "./priceSnapshots";
+import { roundMoney } from "./promotions/promoEngine";
+import { reservationStore } from "./reservations/reservationStore";
+
+export type StockStatus =
+	| "in_stock"
+	| "low_stock"
+	| "insufficient_stock"
+	| "out_of_stock";
+
+export interface EnrichedCartLine extends CartItem {
+	name?: string;
+	style?: string;
+	abv?: number;
+	unit_price: number;
+	image_url?: string;
+	stock_status: StockStatus;
+	line_subtotal: number;
+	// Set when the price differs from the one recorded when it was added.
+	price_change?: PriceChange;
+}
+
+export interface CartView {
+	// Lines whose inventory lookup failed are passed through unenriched.
+	items: (EnrichedCartLine | CartItem)[];
+	item_count: number;
+	subtotal: number;
+}
+
+export const stockStatusOf = (
+	available: number,
+	quantity: number,
+	lowStockThreshold: number = config.lowStockThreshold
+): StockStatus => {
+	if (available <= 0) return "out_of_stock";
+	if (available < quantity) return "insufficient_stock";
+	if (available <= lowStockThreshold) return "low_stock";
+	return "in_stock";
+};
+
+export const buildCartView = (
+	userId: number,
+	items: CartItem[],
+	inventory: Map<string, InventoryItem>,
+	withPriceChanges: boolean = true
+): CartView => {
+	let subtotal = 0;
+	const lines = items.map((item): EnrichedCartLine | CartItem => {
+		const data = inventory.get(item.inventory_id.toString());
+		if (!data) return item;
+		const lineSubtotal = roundMoney(data.price * item.quantity);
+		subtotal += lineSubtotal;
+		const priceChange =
+			withPriceChanges &&
+			priceSnapshotStore.changeFor(
+				userId,
+				Number(item.inventory_id),
+				data.price
+			);
+		return {
+			...item,
+			name: data.name,
+			style: data.style,
+			abv: data.abv,
+			unit_price: data.price,
+			image_url: data.imageUrl,
+			stock_status: stockStatusOf(
+				reservationStore.availableStock(
+					Number(item.inventory_id),
+					data.stockQuantity,
+					userId
+				),
+				item.quantity
+			),
+			line_subtotal: lineSubtotal,
+			...(priceChange && { price_change: priceChange }),
+		};
+	});
+	return {
+		items: lines,
+		item_count: items.reduce((sum, item) => sum + item.quantity, 0),
+		subtotal: roundMoney(subtotal),
+	};
+};
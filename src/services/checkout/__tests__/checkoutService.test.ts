@@ -0,0 +1,289 @@
+import { BreweryApiError } from "../../../ports/brewery/breweryApiClient";
+import { InMemoryBreweryApiClient } from "../../../ports/brewery/inMemoryBreweryApiClient";
+import { InMemoryOrderServiceClient } from "../../../ports/orders/inMemoryOrderServiceClient";
+import { InventoryCache } from "../../inventoryCache";
+import { InventoryLoader } from "../../inventoryLoader";
+import { purchaseLimits } from "../../limits/purchaseLimits";
+import { outboxStore } from "../../outbox/outboxStore";
+import { promoStore } from "../../promotions/promoStore";
+import { reservationStore } from "../../reservations/reservationStore";
+import { CheckoutService } from "../checkoutService";
+
+describe("CheckoutService", () => {
+	let brewery: InMemoryBreweryApiClient;
+	let orders: InMemoryOrderServiceClient;
+	let service: CheckoutService;
+	const user = { id: 1, ageVerified: true };
+
+	beforeEach(async () => {
+		brewery = new InMemoryBreweryApiClient([
+			{
+				id: 1,
+				name: "Hop Harbour IPA",
+				price: 10,
+				stockQuantity: 5,
+				style: "West Coast IPA",
+				category: "beer",
+			},
+			{ id: 2, price: 20, stockQuantity: 5, category: "merchandise" },
+		]);
+		orders = new InMemoryOrderServiceClient();
+		service = new CheckoutService(
+			brewery,
+			new InventoryLoader(brewery, 2, false, new InventoryCache()),
+			orders
+		);
+		promoStore.remove(1);
+		reservationStore.releaseAll(1);
+		reservationStore.releaseAll(2);
+		await brewery.addCartItem({ user_id: 1, inventory_id: 1, quantity: 2 });
+		jest.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	// Test a successful checkout
+	it("should submit a priced snapshot and clear the cart", async () => {
+		reservationStore.hold(1, 1, 2);
+
+		const result = await service.checkout({ user, province: "AB" });
+
+		expect(result).toEqual(
+			expect.objectContaining({
+				placed: true,
+				order: { order_id: "ord_1", status: "confirmed" },
+			})
+		);
+		const stored = orders.getOrder("ord_1")!;
+		expect(stored.lines).toEqual([
+			{
+				inventory_id: 1,
+				name: "Hop Harbour IPA",
+				quantity: 2,
+				unit_price: 10,
+			},
+		]);
+		expect(stored.subtotal).toBe(20);
+		expect(stored.total).toBe(21);
+		expect(await brewery.getCart(1)).toEqual([]);
+		expect(reservationStore.get(1, 1)).toBeUndefined();
+	});
+
+	// Test the cleared cart is published
+	it("should publish a CartCleared event once the order is placed", async () => {
+		outboxStore.clear();
+
+		await service.checkout({ user, province: "AB" });
+
+		expect(outboxStore.list().map(({ event }) => event)).toEqual([
+			expect.objectContaining({
+				type: "CartCleared",
+				payload: { user_id: 1 },
+			}),
+		]);
+		outboxStore.clear();
+	});
+
+	// Test the promo code is redeemed
+	it("should record the promo redemption once the order is placed", async () => {
+		promoStore.apply(1, "IPA10");
+
+		const result = await service.checkout({ user, province: "AB" });
+
+		expect(result.placed && result.snapshot.promo_code).toBe("IPA10");
+		expect(promoStore.usageCount(1, "IPA10")).toBe(1);
+		expect(promoStore.getAppliedCode(1)).toBeUndefined();
+	});
+
+	// Test an empty cart
+	it("should reject an empty cart", async () => {
+		await brewery.clearCart(1);
+
+		const result = await service.checkout({ user, province: "ON" });
+
+		expect(result).toEqual({
+			placed: false,
+			code: "CART_EMPTY",
+			message: "Cart is empty",
+		});
+	});
+
+	// Test stock revalidation
+	it("should list lines that no longer have enough stock", async () => {
+		reservationStore.hold(2, 1, 4);
+
+		const result = await service.checkout({ user, province: "ON" });
+
+		expect(result).toEqual(
+			expect.objectContaining({
+				placed: false,
+				code: "CART_INVALID",
+				problems: [
+					{
+						inventory_id: 1,
+						code: "INSUFFICIENT_STOCK",
+						message: "Insufficient stock",
+						requested: 2,
+						available: 1,
+					},
+				],
+			})
+		);
+		expect(orders.getOrder("ord_1")).toBeUndefined();
+	});
+
+	// Test discontinued items, flagged or gone upstream
+	it("should list lines for items that are no longer available", async () => {
+		brewery.setInventory({
+			id: 3,
+			price: 5,
+			stockQuantity: 5,
+			category: "merchandise",
+		});
+		await brewery.addCartItem({ user_id: 1, inventory_id: 2, quantity: 1 });
+		await brewery.addCartItem({ user_id: 1, inventory_id: 3, quantity: 1 });
+		brewery.setInventory({
+			id: 2,
+			price: 20,
+			stockQuantity: 5,
+			category: "merchandise",
+			discontinued: true,
+		});
+		const getInventory = brewery.getInventory.bind(brewery);
+		jest.spyOn(brewery, "getInventory").mockImplementation((id) =>
+			Number(id) === 3
+				? Promise.reject(
+						new BreweryApiError(404, "Inventory not found")
+					)
+				: getInventory(id)
+		);
+
+		const result = await service.checkout({ user, province: "ON" });
+
+		expect(!result.placed && result.problems).toEqual([
+			{
+				inventory_id: 2,
+				code: "ITEM_DISCONTINUED",
+				message: "Item is no longer available",
+			},
+			{
+				inventory_id: 3,
+				code: "ITEM_DISCONTINUED",
+				message: "Item is no longer available",
+			},
+		]);
+		expect(orders.getOrder("ord_1")).toBeUndefined();
+	});
+
+	// Test purchase limits at checkout
+	it("should recheck the per-order limit and the volume cap", async () => {
+		brewery.setInventory({
+			id: 2,
+			price: 20,
+			stockQuantity: 5,
+			category: "merchandise",
+			maxPerOrder: 1,
+		});
+		await brewery.addCartItem({ user_id: 1, inventory_id: 2, quantity: 2 });
+
+		const result = await service.checkout({ user, province: "ON" });
+
+		expect(!result.placed && result.problems).toEqual([
+			{
+				inventory_id: 2,
+				code: "LIMIT_EXCEEDED",
+				message: "Limit of 1 per order for this item",
+				requested: 2,
+				limit: 1,
+			},
+		]);
+
+		const violation = {
+			code: "ORDER_VOLUME_EXCEEDED" as const,
+			limit_litres: 10,
+			requested_litres: 12,
+			message: "Orders are limited to 10 L",
+		};
+		jest.spyOn(purchaseLimits, "checkOrderVolume").mockReturnValue(
+			violation
+		);
+		brewery.setInventory({
+			id: 2,
+			price: 20,
+			stockQuantity: 5,
+			category: "merchandise",
+		});
+
+		const capped = await service.checkout({ user, province: "ON" });
+
+		expect(capped).toEqual(
+			expect.objectContaining({
+				placed: false,
+				code: "CART_INVALID",
+				problems: [],
+				cart_issues: [violation],
+			})
+		);
+		expect(orders.getOrder("ord_1")).toBeUndefined();
+	});
+
+	// Test the age check at checkout
+	it("should flag alcoholic lines for unverified users", async () => {
+		const result = await service.checkout({
+			user: { id: 1 },
+			province: "ON",
+		});
+
+		expect(result.placed).toBe(false);
+		expect(!result.placed && result.problems).toEqual([
+			expect.objectContaining({ code: "AGE_VERIFICATION_REQUIRED" }),
+		]);
+	});
+
+	// Test price revalidation
+	it("should stop when the total differs from what the customer saw", async () => {
+		const result = await service.checkout({
+			user,
+			province: "AB",
+			expectedTotal: 18.9,
+		});
+
+		expect(result).toEqual({
+			placed: false,
+			code: "PRICE_CHANGED",
+			message: "Cart total has changed",
+			total: 21,
+		});
+	});
+
+	// Test compensation when the cart can't be cleared
+	it("should cancel the order if the cart cannot be cleared", async () => {
+		jest.spyOn(brewery, "clearCart").mockRejectedValueOnce(
+			new BreweryApiError(503, "Brewery API is unavailable")
+		);
+
+		await expect(
+			service.checkout({ user, province: "ON" })
+		).rejects.toMatchObject({ response: { status: 503 } });
+
+		expect(orders.getOrder("ord_1")!.status).toBe("cancelled");
+		expect(await brewery.getCart(1)).toHaveLength(1);
+	});
+
+	// Test a failed order submission leaves the cart alone
+	it("should keep the cart when the order service rejects the order", async () => {
+		jest.spyOn(orders, "submitOrder").mockRejectedValueOnce(
+			new BreweryApiError(502, "Order service unavailable")
+		);
+		const clear = jest.spyOn(brewery, "clearCart");
+
+		await expect(
+			service.checkout({ user, province: "ON" })
+		).rejects.toMatchObject({ response: { status: 502 } });
+
+		expect(clear).not.toHaveBeenCalled();
+		expect(await brewery.getCart(1)).toHaveLength(1);
+	});
+});
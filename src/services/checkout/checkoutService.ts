@@ -0,0 +1,270 @@
+import { breweryApiClient } from "../../ports/brewery";
+import {
+	BreweryApiClient,
+	CartItem,
+	InventoryItem,
+} from "../../ports/brewery/breweryApiClient";
+import { orderServiceClient } from "../../ports/orders";
+import {
+	OrderConfirmation,
+	OrderServiceClient,
+	OrderSubmission,
+} from "../../ports/orders/orderServiceClient";
+import {
+	AgeClaims,
+	AgeVerificationStatus,
+	ageVerificationErrors,
+	ageVerifier,
+} from "../ageVerification";
+import { CartMutationService } from "../cartMutations";
+import { calculateCartTotals, toPricedLine } from "../cartTotals";
+import { InventoryLoader } from "../inventoryLoader";
+import { LimitViolation, purchaseLimits } from "../limits/purchaseLimits";
+import { isAlcoholic } from "../productCategory";
+import { roundMoney } from "../promotions/promoEngine";
+import { promoStore } from "../promotions/promoStore";
+import { reservationStore } from "../reservations/reservationStore";
+
+export interface CheckoutProblem {
+	inventory_id: number;
+	code: string;
+	message: string;
+	requested?: number;
+	available?: number;
+	limit?: number;
+}
+
+export interface CheckoutRequest {
+	user: AgeClaims;
+	province: string;
+	// The total the customer was shown; checkout stops if the fresh total
+	// differs.
+	expectedTotal?: number;
+	authorization?: string;
+}
+
+export type CheckoutResult =
+	| { placed: true; order: OrderConfirmation; snapshot: OrderSubmission }
+	| {
+			placed: false;
+			code: "CART_EMPTY" | "CART_INVALID" | "PRICE_CHANGED";
+			message: string;
+			problems?: CheckoutProblem[];
+			// Problems with the cart as a whole, such as the order volume cap.
+			cart_issues?: LimitViolation[];
+			total?: number;
+	  };
+
+export class CheckoutService {
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly inventoryLoader: InventoryLoader = new InventoryLoader(
+			brewery
+		),
+		private readonly orders: OrderServiceClient = orderServiceClient,
+		private readonly cartMutations: CartMutationService = new CartMutationService(
+			brewery,
+			inventoryLoader
+		)
+	) {}
+
+	async checkout(request: CheckoutRequest): Promise<CheckoutResult> {
+		const { user, authorization } = request;
+		const items = await this.brewery.getCart(user.id, authorization);
+		if (items.length === 0) {
+			return {
+				placed: false,
+				code: "CART_EMPTY",
+				message: "Cart is empty",
+			};
+		}
+
+		const inventory = await this.revalidate(items, authorization);
+		const problems = await this.findProblems(user, items, inventory);
+		const volumeViolation =
+			problems.length === 0
+				? purchaseLimits.checkOrderVolume(
+						items.map((item) =>
+							toPricedLine(
+								item,
+								inventory.get(Number(item.inventory_id))!
+							)
+						)
+					)
+				: undefined;
+		if (problems.length > 0 || volumeViolation) {
+			return {
+				placed: false,
+				code: "CART_INVALID",
+				message: "Cart can no longer be checked out as is",
+				problems,
+				...(volumeViolation && { cart_issues: [volumeViolation] }),
+			};
+		}
+
+		const snapshot = this.freeze(
+			user.id,
+			items,
+			inventory,
+			request.province
+		);
+		if (
+			request.expectedTotal !== undefined &&
+			roundMoney(request.expectedTotal) !== snapshot.total
+		) {
+			return {
+				placed: false,
+				code: "PRICE_CHANGED",
+				message: "Cart total has changed",
+				total: snapshot.total,
+			};
+		}
+
+		const order = await this.orders.submitOrder(snapshot, authorization);
+		try {
+			await this.brewery.clearCart(user.id, authorization);
+		} catch (error) {
+			await this.compensate(order, authorization);
+			throw error;
+		}
+		this.cartMutations.commitClear(user.id);
+		if (snapshot.promo_code) {
+			promoStore.recordRedemption(user.id, snapshot.promo_code);
+			promoStore.remove(user.id);
+		}
+		return { placed: true, order, snapshot };
+	}
+
+	// Prices and stock are read fresh rather than from the inventory cache;
+	// a 404 means the item has been discontinued.
+	private async revalidate(
+		items: CartItem[],
+		authorization?: string
+	): Promise<Map<number, InventoryItem | undefined>> {
+		const ids = [
+			...new Set(items.map((item) => Number(item.inventory_id))),
+		];
+		const fetched = await Promise.all(
+			ids.map((id) =>
+				this.inventoryLoader
+					.fetchFresh(id, authorization)
+					.catch((error) => {
+						if (error.response?.status === 404) return undefined;
+						throw error;
+					})
+			)
+		);
+		return new Map(ids.map((id, i) => [id, fetched[i]]));
+	}
+
+	private async findProblems(
+		user: AgeClaims,
+		items: CartItem[],
+		inventory: Map<number, InventoryItem | undefined>
+	): Promise<CheckoutProblem[]> {
+		const requested = new Map<number, number>();
+		for (const item of items) {
+			const id = Number(item.inventory_id);
+			requested.set(id, (requested.get(id) ?? 0) + item.quantity);
+		}
+		const problems: CheckoutProblem[] = [];
+		let ageStatus: AgeVerificationStatus | undefined;
+		for (const [inventoryId, quantity] of requested) {
+			const data = inventory.get(inventoryId);
+			if (!data || data.discontinued) {
+				problems.push({
+					inventory_id: inventoryId,
+					code: "ITEM_DISCONTINUED",
+					message: "Item is no longer available",
+				});
+				continue;
+			}
+			if (isAlcoholic(data.category)) {
+				ageStatus ??= await ageVerifier.verify(user);
+				if (ageStatus !== "verified") {
+					problems.push({
+						inventory_id: inventoryId,
+						...ageVerificationErrors[ageStatus],
+					});
+					continue;
+				}
+			}
+			const available = reservationStore.availableStock(
+				inventoryId,
+				data.stockQuantity,
+				user.id
+			);
+			if (available < quantity) {
+				problems.push({
+					inventory_id: inventoryId,
+					code: "INSUFFICIENT_STOCK",
+					message: "Insufficient stock",
+					requested: quantity,
+					available,
+				});
+			}
+			const { maxPerOrder } = purchaseLimits.rulesFor(inventoryId, data);
+			if (maxPerOrder !== undefined && quantity > maxPerOrder) {
+				problems.push({
+					inventory_id: inventoryId,
+					code: "LIMIT_EXCEEDED",
+					message: `Limit of ${maxPerOrder} per order for this item`,
+					requested: quantity,
+					limit: maxPerOrder,
+				});
+			}
+		}
+		return problems;
+	}
+
+	private freeze(
+		userId: number,
+		items: CartItem[],
+		inventory: Map<number, InventoryItem | undefined>,
+		province: string
+	): OrderSubmission {
+		const lines = items.map((item) =>
+			toPricedLine(item, inventory.get(Number(item.inventory_id))!)
+		);
+		const { promo_error, ...totals } = calculateCartTotals(
+			userId,
+			lines,
+			province
+		);
+		const promoCode =
+			totals.discounts.length > 0
+				? promoStore.getAppliedCode(userId)
+				: undefined;
+		return {
+			user_id: userId,
+			lines: items.map((item) => {
+				const data = inventory.get(Number(item.inventory_id))!;
+				return {
+					inventory_id: item.inventory_id,
+					name: data.name,
+					quantity: item.quantity,
+					unit_price: data.price,
+				};
+			}),
+			...(promoCode && { promo_code: promoCode }),
+			...totals,
+			priced_at: new Date().toISOString(),
+		};
+	}
+
+	// The order exists but the cart could not be cleared, so the customer
+	// would be able to buy the same items twice. Cancel the order instead.
+	private async compensate(
+		order: OrderConfirmation,
+		authorization?: string
+	): Promise<void> {
+		try {
+			await this.orders.cancelOrder(order.order_id, authorization);
+		} catch (error: any) {
+			console.error(
+				`Error cancelling order ${order.order_id} after checkout failed:`,
+				error.response?.data || error.message
+			);
+		}
+	}
+}
@@ -0,0 +1,77 @@
+import { StaticExchangeRateProvider } from "../../../ports/rates/staticExchangeRateProvider";
+import { roundToCurrency } from "../currencies";
+import { CurrencyConverter } from "../currencyConverter";
+
+describe("CurrencyConverter", () => {
+	const provider = new StaticExchangeRateProvider({
+		base: "CAD",
+		as_of: "2026-10-01T00:00:00.000Z",
+		rates: { USD: 0.75, JPY: 110, CHF: 0.64 },
+	});
+	const converter = new CurrencyConverter(provider, "CAD");
+
+	// Test per-currency rounding
+	it("should round to each currency's smallest unit", () => {
+		expect(roundToCurrency(1.005, "USD")).toBe(1.01);
+		expect(roundToCurrency(1234.5, "JPY")).toBe(1235);
+		expect(roundToCurrency(12.37, "CHF")).toBe(12.35);
+		expect(roundToCurrency(12.38, "CHF")).toBe(12.4);
+	});
+
+	// Test a base currency without a rounding rule
+	it("should refuse an unsupported base currency", () => {
+		expect(() => new CurrencyConverter(provider, "XYZ")).toThrow(
+			"Unsupported base currency XYZ"
+		);
+	});
+
+	// Test rates between two non-base currencies
+	it("should cross rates through the table's base currency", async () => {
+		const rate = await provider.getRate("usd", "JPY");
+
+		expect(rate).toEqual({
+			from: "USD",
+			to: "JPY",
+			rate: 110 / 0.75,
+			as_of: "2026-10-01T00:00:00.000Z",
+		});
+	});
+
+	// Test currencies without a rule or a rate
+	it("should have no rate for unknown currencies", async () => {
+		expect(await converter.rateFor("XYZ")).toBeUndefined();
+		// GBP has a rounding rule but this table has no rate for it
+		expect(await converter.rateFor("GBP")).toBeUndefined();
+	});
+
+	// Test converting a set of totals
+	it("should convert and round every amount", async () => {
+		const rate = (await converter.rateFor("JPY"))!;
+
+		const display = converter.toDisplay(
+			{
+				currency: "CAD",
+				subtotal: 20,
+				discounts: [{ code: "IPA10", description: "", amount: 2 }],
+				province: "ON",
+				taxes: [],
+				tax_total: 2.34,
+				deposits: [],
+				deposit_total: 0.2,
+				total: 20.54,
+			},
+			rate
+		);
+
+		expect(display).toEqual({
+			currency: "JPY",
+			rate: 110,
+			rate_as_of: "2026-10-01T00:00:00.000Z",
+			subtotal: 2200,
+			discount_total: 220,
+			tax_total: 257,
+			deposit_total: 22,
+			total: 2259,
+		});
+	});
+});
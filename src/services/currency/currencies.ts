@@ -0,0 +1,28 @@
+export interface CurrencyRule {
+	// Digits after the decimal point, e.g. 0 for JPY.
+	decimals: number;
+	// Amounts are rounded to a multiple of this, e.g. 0.05 for CHF.
+	increment?: number;
+}
+
+export const currencyRules: Record<string, CurrencyRule> = {
+	CAD: { decimals: 2 },
+	USD: { decimals: 2 },
+	EUR: { decimals: 2 },
+	GBP: { decimals: 2 },
+	MXN: { decimals: 2 },
+	JPY: { decimals: 0 },
+	CHF: { decimals: 2, increment: 0.05 },
+};
+
+export const isSupportedCurrency = (currency: string): boolean =>
+	currency in currencyRules;
+
+// Rounds half away from zero to the currency's smallest unit.
+export const roundToCurrency = (amount: number, currency: string): number => {
+	const { decimals, increment = 10 ** -decimals } = currencyRules[currency];
+	// toPrecision drops binary noise such as 1.005 * 100 = 100.49999...
+	const units = Number((Math.abs(amount) / increment).toPrecision(12));
+	const rounded = Math.sign(amount) * Math.round(units) * increment;
+	return Number(rounded.toFixed(decimals)) || 0;
+};
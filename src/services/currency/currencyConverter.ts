@@ -0,0 +1,59 @@
+import { config } from "../../config/config";
+import { exchangeRateProvider } from "../../ports/rates";
+import {
+	ExchangeRate,
+	ExchangeRateProvider,
+} from "../../ports/rates/exchangeRateProvider";
+import { CartTotals } from "../cartTotals";
+import { isSupportedCurrency, roundToCurrency } from "./currencies";
+
+export interface DisplayTotals {
+	currency: string;
+	rate: number;
+	rate_as_of: string;
+	subtotal: number;
+	discount_total: number;
+	tax_total: number;
+	deposit_total: number;
+	total: number;
+}
+
+export class CurrencyConverter {
+	constructor(
+		private readonly rates: ExchangeRateProvider = exchangeRateProvider,
+		private readonly baseCurrency: string = config.baseCurrency
+	) {
+		// Checked when the service starts, since every base amount is
+		// rounded with this currency's rule.
+		if (!isSupportedCurrency(baseCurrency)) {
+			throw new Error(`Unsupported base currency ${baseCurrency}`);
+		}
+	}
+
+	// Undefined when the currency has no rounding rule or no rate.
+	async rateFor(currency: string): Promise<ExchangeRate | undefined> {
+		if (!isSupportedCurrency(currency)) return undefined;
+		return this.rates.getRate(this.baseCurrency, currency);
+	}
+
+	// Each amount is converted from the base amount and rounded on its own,
+	// so the display parts can be a unit off the display total.
+	toDisplay(totals: CartTotals, rate: ExchangeRate): DisplayTotals {
+		const convert = (amount: number) =>
+			roundToCurrency(amount * rate.rate, rate.to);
+		return {
+			currency: rate.to,
+			rate: rate.rate,
+			rate_as_of: rate.as_of,
+			subtotal: convert(totals.subtotal),
+			discount_total: convert(
+				totals.discounts.reduce((sum, d) => sum + d.amount, 0)
+			),
+			tax_total: convert(totals.tax_total),
+			deposit_total: convert(totals.deposit_total),
+			total: convert(totals.total),
+		};
+	}
+}
+
+export const currencyConverter = new CurrencyConverter();
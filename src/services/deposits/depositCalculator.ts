@@ -0,0 +1,71 @@
+import fs from "fs";
+import { config } from "../../config/config";
+import { roundMoney } from "../promotions/promoEngine";
+import { DepositSchedule, defaultDepositSchedule } from "./depositSchedule";
+
+export interface ContainerLine {
+	inventory_id: number;
+	quantity: number;
+	containerType?: string;
+	containerSizeMl?: number;
+	unitsPerPack?: number;
+}
+
+export interface DepositLine {
+	inventory_id: number;
+	container_type: string;
+	container_size_ml: number;
+	containers: number;
+	unit_deposit: number;
+	amount: number;
+}
+
+export class DepositCalculator {
+	private readonly schedule: DepositSchedule;
+
+	constructor(schedule: DepositSchedule = defaultDepositSchedule) {
+		this.schedule = Object.fromEntries(
+			Object.entries(schedule).map(([province, tiers]) => [
+				province.toUpperCase(),
+				tiers,
+			])
+		);
+	}
+
+	calculate(province: string, lines: ContainerLine[]): DepositLine[] {
+		const tiers = this.schedule[province.toUpperCase()] ?? [];
+		const deposits: DepositLine[] = [];
+		for (const line of lines) {
+			if (!line.containerType || !line.containerSizeMl) continue;
+			const containerType = line.containerType.toLowerCase();
+			const size = line.containerSizeMl;
+			const tier = tiers.find(
+				(t) =>
+					t.containerTypes.includes(containerType) &&
+					(t.minSizeMl === undefined || size >= t.minSizeMl) &&
+					(t.maxSizeMl === undefined || size <= t.maxSizeMl)
+			);
+			if (!tier) continue;
+			const containers = line.quantity * (line.unitsPerPack ?? 1);
+			deposits.push({
+				inventory_id: line.inventory_id,
+				container_type: containerType,
+				container_size_ml: size,
+				containers,
+				unit_deposit: tier.amount,
+				amount: roundMoney(containers * tier.amount),
+			});
+		}
+		return deposits;
+	}
+}
+
+export const depositTotalOf = (deposits: DepositLine[]): number =>
+	roundMoney(deposits.reduce((sum, deposit) => sum + deposit.amount, 0));
+
+const loadDepositSchedule = (): DepositSchedule =>
+	config.depositScheduleFile
+		? JSON.parse(fs.readFileSync(config.depositScheduleFile, "utf8"))
+		: defaultDepositSchedule;
+
+export const depositCalculator = new DepositCalculator(loadDepositSchedule());
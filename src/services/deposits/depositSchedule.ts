@@ -0,0 +1,16 @@
+export interface DepositTier {
+	containerTypes: string[];
+	// Inclusive size bounds in millilitres; open-ended when omitted.
+	minSizeMl?: number;
+	maxSizeMl?: number;
+	amount: number;
+}
+
+export type DepositSchedule = Record<string, DepositTier[]>;
+
+export const defaultDepositSchedule: DepositSchedule = {
+	ON: [
+		{ containerTypes: ["bottle", "can"], maxSizeMl: 630, amount: 0.1 },
+		{ containerTypes: ["bottle", "can"], minSizeMl: 631, amount: 0.2 },
+	],
+};
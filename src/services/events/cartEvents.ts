@@ -0,0 +1,65 @@
+import { DomainEvent, createEvent } from "../../ports/events/eventPublisher";
+
+export interface CartEventLine {
+	inventory_id: number;
+	name?: string;
+	quantity: number;
+	unit_price?: number;
+	line_subtotal?: number;
+}
+
+export interface CartAbandoned {
+	user_id: number;
+	// The largest threshold the cart has now been idle past.
+	threshold_seconds: number;
+	idle_seconds: number;
+	last_activity_at: string;
+	items: CartEventLine[];
+	item_count: number;
+	value: number;
+}
+
+export interface CartItemAdded {
+	user_id: number;
+	item_id: number;
+	inventory_id: number;
+	quantity: number;
+	unit_price?: number;
+}
+
+// Also sent when adding an item already in the cart tops up its line.
+export interface CartItemQuantityChanged {
+	user_id: number;
+	item_id: number;
+	inventory_id: number;
+	previous_quantity: number;
+	quantity: number;
+}
+
+export interface CartItemRemoved {
+	user_id: number;
+	item_id: number;
+	inventory_id: number;
+	// The quantity the line held when it was removed.
+	quantity: number;
+}
+
+export interface CartCleared {
+	user_id: number;
+}
+
+export interface CartEventPayloads {
+	CartAbandoned: CartAbandoned;
+	CartItemAdded: CartItemAdded;
+	CartItemQuantityChanged: CartItemQuantityChanged;
+	CartItemRemoved: CartItemRemoved;
+	CartCleared: CartCleared;
+}
+
+export type CartEventType = keyof CartEventPayloads;
+
+export const createCartEvent = <K extends CartEventType>(
+	type: K,
+	payload: CartEventPayloads[K],
+	now?: Date
+): DomainEvent<CartEventPayloads[K]> => createEvent(type, payload, now);
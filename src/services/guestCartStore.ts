@@ -0,0 +1,85 @@
+import { config } from "../config/config";
+
+export interface GuestCartItem {
+	inventory_id: number;
+	quantity: number;
+}
+
+interface GuestCart {
+	items: GuestCartItem[];
+	touchedAt: number;
+}
+
+export class GuestCartStore {
+	private readonly carts = new Map<string, GuestCart>();
+
+	constructor(private readonly ttlMs = config.guestCartTtlSeconds * 1000) {}
+
+	getItems(guestId: string): GuestCartItem[] {
+		this.prune();
+		return (
+			this.carts.get(guestId)?.items.map((item) => ({ ...item })) ?? []
+		);
+	}
+
+	getItem(guestId: string, inventoryId: number): GuestCartItem | undefined {
+		return this.getItems(guestId).find(
+			(item) => item.inventory_id === inventoryId
+		);
+	}
+
+	setQuantity(
+		guestId: string,
+		inventoryId: number,
+		quantity: number
+	): GuestCartItem {
+		const cart = this.touch(guestId);
+		const existing = cart.items.find(
+			(item) => item.inventory_id === inventoryId
+		);
+		if (existing) {
+			existing.quantity = quantity;
+			return { ...existing };
+		}
+		const item = { inventory_id: inventoryId, quantity };
+		cart.items.push(item);
+		return { ...item };
+	}
+
+	remove(guestId: string, inventoryId: number): boolean {
+		const cart = this.carts.get(guestId);
+		if (!cart) return false;
+		const before = cart.items.length;
+		cart.items = cart.items.filter(
+			(item) => item.inventory_id !== inventoryId
+		);
+		cart.touchedAt = Date.now();
+		return cart.items.length < before;
+	}
+
+	clear(guestId: string): void {
+		this.carts.delete(guestId);
+	}
+
+	private touch(guestId: string): GuestCart {
+		this.prune();
+		let cart = this.carts.get(guestId);
+		if (!cart) {
+			cart = { items: [], touchedAt: Date.now() };
+			this.carts.set(guestId, cart);
+		}
+		cart.touchedAt = Date.now();
+		return cart;
+	}
+
+	// Guest tokens expire after the same TTL, so an idle guest cart can
+	// never be reached again and is safe to drop.
+	private prune(): void {
+		const cutoff = Date.now() - this.ttlMs;
+		for (const [guestId, cart] of this.carts) {
+			if (cart.touchedAt < cutoff) this.carts.delete(guestId);
+		}
+	}
+}
+
+export const guestCartStore = new GuestCartStore();
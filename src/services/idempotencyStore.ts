@@ -0,0 +1,68 @@
+import { config } from "../config/config";
+
+export interface StoredResponse {
+	status: number;
+	body: unknown;
+}
+
+interface IdempotencyRecord {
+	fingerprint: string;
+	// Unset while the first request is still being handled.
+	response?: StoredResponse;
+	expiresAt: number;
+}
+
+export type IdempotencyLookup =
+	| { state: "new" }
+	| { state: "in_progress" }
+	| { state: "mismatch" }
+	| { state: "replay"; response: StoredResponse };
+
+export class IdempotencyStore {
+	private readonly records = new Map<string, IdempotencyRecord>();
+
+	constructor(private readonly ttlMs = config.idempotencyTtlSeconds * 1000) {}
+
+	// Claims the key for a new request, or reports what is already stored
+	// under it.
+	begin(scope: string, key: string, fingerprint: string): IdempotencyLookup {
+		this.prune();
+		const record = this.records.get(this.recordKey(scope, key));
+		if (!record) {
+			this.records.set(this.recordKey(scope, key), {
+				fingerprint,
+				expiresAt: Date.now() + this.ttlMs,
+			});
+			return { state: "new" };
+		}
+		if (record.fingerprint !== fingerprint) return { state: "mismatch" };
+		if (!record.response) return { state: "in_progress" };
+		return { state: "replay", response: record.response };
+	}
+
+	complete(scope: string, key: string, response: StoredResponse): void {
+		const record = this.records.get(this.recordKey(scope, key));
+		if (record) record.response = response;
+	}
+
+	// Frees the key so the client can retry, e.g. after a server error.
+	abandon(scope: string, key: string): void {
+		const recordKey = this.recordKey(scope, key);
+		if (!this.records.get(recordKey)?.response) {
+			this.records.delete(recordKey);
+		}
+	}
+
+	private prune(): void {
+		const now = Date.now();
+		for (const [key, record] of this.records) {
+			if (record.expiresAt <= now) this.records.delete(key);
+		}
+	}
+
+	private recordKey(scope: string, key: string): string {
+		return `${scope}:${key}`;
+	}
+}
+
+export const idempotencyStore = new IdempotencyStore();
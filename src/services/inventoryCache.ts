@@ -0,0 +1,66 @@
+import { config } from "../config/config";
+import { InventoryItem } from "../ports/brewery/breweryApiClient";
+
+interface CacheEntry {
+	value: InventoryItem;
+	fetchedAt: number;
+}
+
+export interface CacheHit {
+	value: InventoryItem;
+	// False once the entry is past its TTL but still inside the stale window.
+	fresh: boolean;
+}
+
+// A Map keeps insertion order, so re-inserting on every hit makes the first
+// key the least recently used one.
+export class InventoryCache {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(
+		private readonly ttlMs: number = config.inventoryCacheTtlSeconds * 1000,
+		private readonly staleMs: number = config.inventoryCacheStaleSeconds *
+			1000,
+		private readonly maxEntries: number = config.inventoryCacheMaxEntries
+	) {}
+
+	get(inventoryId: number | string): CacheHit | undefined {
+		const key = inventoryId.toString();
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		const age = Date.now() - entry.fetchedAt;
+		if (age >= this.ttlMs + this.staleMs) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return { value: entry.value, fresh: age < this.ttlMs };
+	}
+
+	set(inventoryId: number | string, value: InventoryItem): void {
+		if (this.maxEntries <= 0) return;
+		const key = inventoryId.toString();
+		this.entries.delete(key);
+		this.entries.set(key, { value, fetchedAt: Date.now() });
+		while (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value as string);
+		}
+	}
+
+	invalidate(inventoryId: number | string): boolean {
+		return this.entries.delete(inventoryId.toString());
+	}
+
+	clear(): number {
+		const size = this.entries.size;
+		this.entries.clear();
+		return size;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+export const inventoryCache = new InventoryCache();
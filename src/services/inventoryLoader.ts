@@ -0,0 +1,173 @@
+import { config } from "../config/config";
+import { breweryApiClient } from "../ports/brewery";
+import {
+	BreweryApiClient,
+	InventoryItem,
+} from "../ports/brewery/breweryApiClient";
+import { InventoryCache, inventoryCache } from "./inventoryCache";
+
+export interface InventoryFailure {
+	inventory_id: number;
+	status: number;
+	message: string;
+	error: any;
+}
+
+export interface InventoryLookup {
+	items: Map<string, InventoryItem>;
+	failures: InventoryFailure[];
+}
+
+const toFailure = (inventoryId: number, error: any): InventoryFailure => ({
+	inventory_id: inventoryId,
+	status: error.response?.status || 500,
+	message:
+		error.response?.data?.message ||
+		error.message ||
+		"Error fetching inventory",
+	error,
+});
+
+export class InventoryLoader {
+	// Flipped off the first time the upstream answers the batch route with a
+	// 404, so later lookups go straight to per-item requests.
+	private batchSupported: boolean;
+	private readonly revalidating = new Set<string>();
+
+	constructor(
+		private readonly brewery: BreweryApiClient = breweryApiClient,
+		private readonly concurrency: number = config.inventoryConcurrency,
+		batchLookups: boolean = config.inventoryBatchLookups,
+		private readonly cache: InventoryCache = inventoryCache
+	) {
+		this.batchSupported = batchLookups;
+	}
+
+	// Stock checks go through here so they never act on a cached count.
+	async fetchFresh(
+		inventoryId: number,
+		authorization?: string
+	): Promise<InventoryItem> {
+		const item = await this.brewery.getInventory(
+			inventoryId,
+			authorization
+		);
+		this.cache.set(inventoryId, item);
+		return item;
+	}
+
+	async load(
+		ids: number[],
+		authorization?: string
+	): Promise<InventoryLookup> {
+		const uniqueIds = [...new Set(ids.map((id) => Number(id)))];
+		const items = new Map<string, InventoryItem>();
+		const missing: number[] = [];
+		for (const id of uniqueIds) {
+			const hit = this.cache.get(id);
+			if (!hit) {
+				missing.push(id);
+				continue;
+			}
+			items.set(id.toString(), hit.value);
+			if (!hit.fresh) this.revalidate(id, authorization);
+		}
+		if (missing.length === 0) return { items, failures: [] };
+
+		const fetched = await this.loadFresh(missing, authorization);
+		fetched.items.forEach((value, key) => items.set(key, value));
+		return { items, failures: fetched.failures };
+	}
+
+	// Like fetchFresh for several items at once: skips the cache but still
+	// uses the batch route when the upstream has one.
+	async loadFresh(
+		ids: number[],
+		authorization?: string
+	): Promise<InventoryLookup> {
+		const uniqueIds = [...new Set(ids.map((id) => Number(id)))];
+		let fetched: InventoryLookup | undefined;
+		if (this.batchSupported && uniqueIds.length > 1) {
+			fetched = await this.loadBatch(uniqueIds, authorization);
+		}
+		return fetched ?? (await this.loadEach(uniqueIds, authorization));
+	}
+
+	private revalidate(inventoryId: number, authorization?: string): void {
+		const key = inventoryId.toString();
+		if (this.revalidating.has(key)) return;
+		this.revalidating.add(key);
+		this.fetchFresh(inventoryId, authorization)
+			.catch((error) =>
+				console.error(
+					`Error revalidating inventory ${inventoryId}:`,
+					error.response?.data || error.message
+				)
+			)
+			.finally(() => this.revalidating.delete(key));
+	}
+
+	private async loadBatch(
+		ids: number[],
+		authorization?: string
+	): Promise<InventoryLookup | undefined> {
+		try {
+			const found = await this.brewery.getInventoryBatch(
+				ids,
+				authorization
+			);
+			const items = new Map<string, InventoryItem>(
+				found.map((item) => [item.id.toString(), item])
+			);
+			items.forEach((value, key) => this.cache.set(key, value));
+			const failures = ids
+				.filter((id) => !items.has(id.toString()))
+				.map((id) =>
+					toFailure(id, {
+						response: {
+							status: 404,
+							data: { message: "Inventory not found" },
+						},
+					})
+				);
+			return { items, failures };
+		} catch (error: any) {
+			if (error.response?.status === 404) {
+				this.batchSupported = false;
+				return undefined;
+			}
+			return {
+				items: new Map(),
+				failures: ids.map((id) => toFailure(id, error)),
+			};
+		}
+	}
+
+	private async loadEach(
+		ids: number[],
+		authorization?: string
+	): Promise<InventoryLookup> {
+		const items = new Map<string, InventoryItem>();
+		const failures: InventoryFailure[] = [];
+		const queue = [...ids];
+		const worker = async () => {
+			for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+				try {
+					items.set(
+						id.toString(),
+						await this.fetchFresh(id, authorization)
+					);
+				} catch (error: any) {
+					failures.push(toFailure(id, error));
+				}
+			}
+		};
+		await Promise.all(
+			Array.from(
+				{ length: Math.max(1, Math.min(this.concurrency, ids.length)) },
+				worker
+			)
+		);
+		return { items, failures };
+	}
+}
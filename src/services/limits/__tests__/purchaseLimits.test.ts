@@ -0,0 +1,66 @@
+import { PurchaseLimits, volumeLitres } from "../purchaseLimits";
+
+describe("PurchaseLimits", () => {
+	// Test container and pack sizes feed the volume
+	it("should compute line volume from container size and pack", () => {
+		expect(
+			volumeLitres({ quantity: 2, containerSizeMl: 473, unitsPerPack: 4 })
+		).toBeCloseTo(3.784);
+		expect(volumeLitres({ quantity: 3, volumeMl: 1000 })).toBe(3);
+		expect(volumeLitres({ quantity: 3 })).toBe(0);
+	});
+
+	// Test local rules win over inventory fields
+	it("should let local rules override inventory limits", () => {
+		const limits = new PurchaseLimits({ "5": { maxPerOrder: 1 } }, 0);
+
+		expect(
+			limits.rulesFor(5, { maxPerOrder: 6, maxPerCustomer: 12 })
+		).toEqual({ maxPerOrder: 1, maxPerCustomer: 12 });
+		expect(limits.needsCart(5, {})).toBe(true);
+		expect(limits.needsCart(6, {})).toBe(false);
+	});
+
+	// Test the order volume cap covers the whole cart
+	it("should flag orders over the volume cap", () => {
+		const limits = new PurchaseLimits({}, 10);
+
+		const violations = limits.check({
+			userId: 1,
+			inventoryId: 1,
+			inventory: { volumeMl: 2000 },
+			quantity: 3,
+			added: 1,
+			otherLines: [
+				{ quantity: 1, containerSizeMl: 500, unitsPerPack: 12 },
+			],
+		});
+
+		expect(violations).toEqual([
+			{
+				code: "ORDER_VOLUME_EXCEEDED",
+				limit_litres: 10,
+				requested_litres: 12,
+				message: "Orders are limited to 10 L",
+			},
+		]);
+	});
+
+	// Test lowering a quantity is never blocked by the customer limit
+	it("should ignore the customer limit when nothing is added", () => {
+		const limits = new PurchaseLimits({ "1": { maxPerCustomer: 1 } }, 0);
+		limits.recordAdded(1, 1, 1);
+
+		expect(
+			limits.check({
+				userId: 1,
+				inventoryId: 1,
+				inventory: {},
+				quantity: 1,
+				added: 0,
+				otherLines: [],
+			})
+		).toEqual([]);
+		expect(limits.purchasedQuantity(1, 1)).toBe(1);
+	});
+});
@@ -0,0 +1,164 @@
+import fs from "fs";
+import { config } from "../../config/config";
+
+export interface SkuLimitRule {
+	// Most units of the item one cart may hold.
+	maxPerOrder?: number;
+	// Most units one customer may add over time.
+	maxPerCustomer?: number;
+}
+
+export type PurchaseLimitRules = Record<string, SkuLimitRule>;
+
+export interface VolumeFields {
+	quantity: number;
+	volumeMl?: number;
+	containerSizeMl?: number;
+	unitsPerPack?: number;
+}
+
+export type LimitViolation =
+	| {
+			code: "SKU_LIMIT_EXCEEDED";
+			inventory_id: number;
+			limit: number;
+			requested: number;
+			message: string;
+	  }
+	| {
+			code: "CUSTOMER_LIMIT_EXCEEDED";
+			inventory_id: number;
+			limit: number;
+			purchased: number;
+			requested: number;
+			message: string;
+	  }
+	| {
+			code: "ORDER_VOLUME_EXCEEDED";
+			limit_litres: number;
+			requested_litres: number;
+			message: string;
+	  };
+
+// The parts of an inventory record that limits are read from.
+export type LimitedInventory = SkuLimitRule & Omit<VolumeFields, "quantity">;
+
+export interface LimitCheck {
+	userId: number;
+	inventoryId: number;
+	inventory: LimitedInventory;
+	// Units of the item the cart would hold after the change.
+	quantity: number;
+	// Units the change adds on top of what the customer already had.
+	added: number;
+	// Units earlier changes in the same batch add that aren't recorded yet.
+	pendingAdded?: number;
+	// Every other cart line, for the order volume cap.
+	otherLines: VolumeFields[];
+}
+
+export const volumeLitres = (line: VolumeFields): number => {
+	const unitMl = line.containerSizeMl
+		? line.containerSizeMl * (line.unitsPerPack ?? 1)
+		: (line.volumeMl ?? 0);
+	return (unitMl * line.quantity) / 1000;
+};
+
+const roundLitres = (litres: number): number =>
+	Math.round(litres * 1000) / 1000;
+
+export class PurchaseLimits {
+	private readonly ledger = new Map<string, number>();
+
+	constructor(
+		private readonly rules: PurchaseLimitRules = {},
+		readonly maxOrderVolumeLitres: number = config.maxOrderVolumeLitres
+	) {}
+
+	// Local rules override the limits carried on the inventory record.
+	rulesFor(inventoryId: number, inventory?: SkuLimitRule): SkuLimitRule {
+		return {
+			maxPerOrder: inventory?.maxPerOrder,
+			maxPerCustomer: inventory?.maxPerCustomer,
+			...this.rules[inventoryId.toString()],
+		};
+	}
+
+	needsCart(inventoryId: number, inventory?: SkuLimitRule): boolean {
+		return (
+			this.rulesFor(inventoryId, inventory).maxPerOrder !== undefined ||
+			this.maxOrderVolumeLitres > 0
+		);
+	}
+
+	purchasedQuantity(userId: number, inventoryId: number): number {
+		return this.ledger.get(`${userId}:${inventoryId}`) ?? 0;
+	}
+
+	recordAdded(userId: number, inventoryId: number, quantity: number): void {
+		if (quantity <= 0) return;
+		const key = `${userId}:${inventoryId}`;
+		this.ledger.set(key, (this.ledger.get(key) ?? 0) + quantity);
+	}
+
+	check(input: LimitCheck): LimitViolation[] {
+		const violations: LimitViolation[] = [];
+		const rule = this.rulesFor(input.inventoryId, input.inventory);
+		if (
+			rule.maxPerOrder !== undefined &&
+			input.quantity > rule.maxPerOrder
+		) {
+			violations.push({
+				code: "SKU_LIMIT_EXCEEDED",
+				inventory_id: input.inventoryId,
+				limit: rule.maxPerOrder,
+				requested: input.quantity,
+				message: `Limit of ${rule.maxPerOrder} per order for this item`,
+			});
+		}
+		const purchased =
+			this.purchasedQuantity(input.userId, input.inventoryId) +
+			(input.pendingAdded ?? 0);
+		if (
+			rule.maxPerCustomer !== undefined &&
+			input.added > 0 &&
+			purchased + input.added > rule.maxPerCustomer
+		) {
+			violations.push({
+				code: "CUSTOMER_LIMIT_EXCEEDED",
+				inventory_id: input.inventoryId,
+				limit: rule.maxPerCustomer,
+				purchased,
+				requested: input.added,
+				message: `Limit of ${rule.maxPerCustomer} per customer for this item`,
+			});
+		}
+		const volumeViolation = this.checkOrderVolume([
+			...input.otherLines,
+			{ ...input.inventory, quantity: input.quantity },
+		]);
+		if (volumeViolation) violations.push(volumeViolation);
+		return violations;
+	}
+
+	checkOrderVolume(lines: VolumeFields[]): LimitViolation | undefined {
+		if (this.maxOrderVolumeLitres <= 0) return;
+		const litres = roundLitres(
+			lines.reduce((sum, line) => sum + volumeLitres(line), 0)
+		);
+		if (litres <= this.maxOrderVolumeLitres) return;
+		return {
+			code: "ORDER_VOLUME_EXCEEDED",
+			limit_litres: this.maxOrderVolumeLitres,
+			requested_litres: litres,
+			message: `Orders are limited to ${this.maxOrderVolumeLitres} L`,
+		};
+	}
+}
+
+const loadPurchaseLimitRules = (): PurchaseLimitRules =>
+	config.purchaseLimitsFile
+		? JSON.parse(fs.readFileSync(config.purchaseLimitsFile, "utf8"))
+		: {};
+
+export const purchaseLimits = new PurchaseLimits(loadPurchaseLimitRules());
@@ -0,0 +1,147 @@
+export const DEFAULT_CART_ID = "default";
+
+export interface NamedCart {
+	id: string;
+	user_id: number;
+	name: string;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface NamedCartLine {
+	id: number;
+	cart_id: string;
+	user_id: number;
+	inventory_id: number;
+	quantity: number;
+}
+
+// Carts other than the default one. The default cart is the user's cart in
+// the Brewery Database Service; named carts only live here.
+export class NamedCartStore {
+	private readonly carts = new Map<string, NamedCart>();
+	private readonly lines = new Map<number, NamedCartLine>();
+	private readonly selected = new Map<number, string>();
+	private nextCartId = 1;
+	private nextLineId = 1;
+
+	list(userId: number): NamedCart[] {
+		return [...this.carts.values()]
+			.filter((cart) => cart.user_id === userId)
+			.map((cart) => ({ ...cart }));
+	}
+
+	get(userId: number, cartId: string): NamedCart | undefined {
+		const cart = this.carts.get(cartId);
+		return cart?.user_id === userId ? { ...cart } : undefined;
+	}
+
+	findByName(userId: number, name: string): NamedCart | undefined {
+		return this.list(userId).find(
+			(cart) => cart.name.toLowerCase() === name.trim().toLowerCase()
+		);
+	}
+
+	create(userId: number, name: string): NamedCart {
+		const now = new Date().toISOString();
+		const cart: NamedCart = {
+			id: `cart_${this.nextCartId++}`,
+			user_id: userId,
+			name: name.trim(),
+			created_at: now,
+			updated_at: now,
+		};
+		this.carts.set(cart.id, cart);
+		return { ...cart };
+	}
+
+	rename(
+		userId: number,
+		cartId: string,
+		name: string
+	): NamedCart | undefined {
+		const cart = this.carts.get(cartId);
+		if (cart?.user_id !== userId) return undefined;
+		cart.name = name.trim();
+		cart.updated_at = new Date().toISOString();
+		return { ...cart };
+	}
+
+	// Deleting the selected cart puts the user back on the default cart.
+	delete(userId: number, cartId: string): boolean {
+		if (!this.get(userId, cartId)) return false;
+		this.carts.delete(cartId);
+		this.clearLines(cartId);
+		if (this.selected.get(userId) === cartId) this.selected.delete(userId);
+		return true;
+	}
+
+	select(userId: number, cartId: string): void {
+		if (cartId === DEFAULT_CART_ID) this.selected.delete(userId);
+		else this.selected.set(userId, cartId);
+	}
+
+	selectedCartId(userId: number): string {
+		return this.selected.get(userId) ?? DEFAULT_CART_ID;
+	}
+
+	getLines(cartId: string): NamedCartLine[] {
+		return [...this.lines.values()]
+			.filter((line) => line.cart_id === cartId)
+			.map((line) => ({ ...line }));
+	}
+
+	getLine(cartId: string, id: number): NamedCartLine | undefined {
+		const line = this.lines.get(id);
+		return line?.cart_id === cartId ? { ...line } : undefined;
+	}
+
+	addLine(
+		cartId: string,
+		userId: number,
+		inventoryId: number,
+		quantity: number
+	): NamedCartLine {
+		const line: NamedCartLine = {
+			id: this.nextLineId++,
+			cart_id: cartId,
+			user_id: userId,
+			inventory_id: inventoryId,
+			quantity,
+		};
+		this.lines.set(line.id, line);
+		this.touch(cartId);
+		return { ...line };
+	}
+
+	setQuantity(
+		cartId: string,
+		id: number,
+		quantity: number
+	): NamedCartLine | undefined {
+		const line = this.lines.get(id);
+		if (line?.cart_id !== cartId) return undefined;
+		line.quantity = quantity;
+		this.touch(cartId);
+		return { ...line };
+	}
+
+	removeLine(cartId: string, id: number): boolean {
+		if (!this.getLine(cartId, id)) return false;
+		this.lines.delete(id);
+		this.touch(cartId);
+		return true;
+	}
+
+	clearLines(cartId: string): void {
+		for (const line of this.getLines(cartId)) this.lines.delete(line.id);
+		this.touch(cartId);
+	}
+
+	private touch(cartId: string): void {
+		const cart = this.carts.get(cartId);
+		if (cart) cart.updated_at = new Date().toISOString();
+	}
+}
+
+export const namedCartStore = new NamedCartStore();
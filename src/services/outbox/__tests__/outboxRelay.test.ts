@@ -0,0 +1,90 @@
+import { InMemoryEventPublisher } from "../../../ports/events/inMemoryEventPublisher";
+import { createCartEvent } from "../../events/cartEvents";
+import { OutboxRelay } from "../outboxRelay";
+import { OutboxStore } from "../outboxStore";
+
+describe("OutboxRelay", () => {
+	const start = Date.parse("2026-10-19T12:00:00.000Z");
+	let outbox: OutboxStore;
+	let publisher: InMemoryEventPublisher;
+	let relay: OutboxRelay;
+
+	const added = (userId: number, itemId: number) =>
+		createCartEvent("CartItemAdded", {
+			user_id: userId,
+			item_id: itemId,
+			inventory_id: 1,
+			quantity: 1,
+		});
+
+	beforeEach(() => {
+		outbox = new OutboxStore();
+		publisher = new InMemoryEventPublisher();
+		relay = new OutboxRelay(outbox, publisher, 5, 20);
+		jest.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	// Test events are delivered in order and then dropped
+	it("should deliver pending events in order", async () => {
+		const first = added(1, 1);
+		const second = added(1, 2);
+		outbox.add("1", [first, second], start);
+
+		expect(await relay.flush(start)).toBe(2);
+
+		expect(publisher.events()).toEqual([first, second]);
+		expect(outbox.list()).toEqual([]);
+	});
+
+	// Test a failed delivery is retried with exponential backoff
+	it("should retry a failed delivery after a growing delay", async () => {
+		const event = added(1, 1);
+		outbox.add("1", [event], start);
+		const publish = jest
+			.spyOn(publisher, "publish")
+			.mockRejectedValueOnce(new Error("connect ECONNREFUSED"))
+			.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+		expect(await relay.flush(start)).toBe(0);
+		expect(outbox.list()[0]).toEqual(
+			expect.objectContaining({
+				attempts: 1,
+				nextAttemptAt: start + 5000,
+				lastError: "connect ECONNREFUSED",
+			})
+		);
+
+		expect(await relay.flush(start + 4000)).toBe(0);
+		expect(publish).toHaveBeenCalledTimes(1);
+
+		expect(await relay.flush(start + 5000)).toBe(0);
+		expect(outbox.list()[0].nextAttemptAt).toBe(start + 15000);
+
+		expect(await relay.flush(start + 15000)).toBe(1);
+		expect(outbox.list()).toEqual([]);
+	});
+
+	// Test a stuck cart holds back only its own later events
+	it("should not let a cart's later events overtake a failed one", async () => {
+		const stuck = added(1, 1);
+		const behind = added(1, 2);
+		const other = added(2, 3);
+		outbox.add("1", [stuck, behind], start);
+		outbox.add("2", [other], start);
+		jest.spyOn(publisher, "publish").mockRejectedValueOnce(
+			new Error("Request failed with status code 500")
+		);
+
+		expect(await relay.flush(start)).toBe(1);
+
+		expect(publisher.events()).toEqual([other]);
+		expect(outbox.list().map((entry) => entry.event)).toEqual([
+			stuck,
+			behind,
+		]);
+	});
+});
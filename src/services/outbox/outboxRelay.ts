@@ -0,0 +1,83 @@
+import { config } from "../../config/config";
+import { eventPublisher } from "../../ports/events";
+import { EventPublisher } from "../../ports/events/eventPublisher";
+import { OutboxEntry, OutboxStore, outboxStore } from "./outboxStore";
+
+// Delivers outbox entries to the configured publisher. An entry is only
+// removed once the publisher has accepted it, so delivery is at-least-once.
+export class OutboxRelay {
+	private timer?: NodeJS.Timeout;
+	private flushing = false;
+
+	constructor(
+		private readonly outbox: OutboxStore = outboxStore,
+		private readonly publisher: EventPublisher = eventPublisher,
+		private readonly retryBaseSeconds: number = config.outboxRetryBaseSeconds,
+		private readonly retryMaxSeconds: number = config.outboxRetryMaxSeconds
+	) {}
+
+	// Returns how many events were delivered.
+	async flush(now: number = Date.now()): Promise<number> {
+		if (this.flushing) return 0;
+		this.flushing = true;
+		let delivered = 0;
+		try {
+			for (;;) {
+				const due = this.outbox.due(now);
+				if (due.length === 0) break;
+				let progressed = false;
+				for (const entry of due) {
+					if (await this.deliver(entry, now)) {
+						delivered++;
+						progressed = true;
+					}
+				}
+				if (!progressed) break;
+			}
+		} finally {
+			this.flushing = false;
+		}
+		return delivered;
+	}
+
+	start(intervalMs: number = config.outboxRelayIntervalSeconds * 1000): void {
+		this.stop();
+		this.timer = setInterval(() => {
+			this.flush();
+		}, intervalMs);
+		this.timer.unref();
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+	}
+
+	private async deliver(entry: OutboxEntry, now: number): Promise<boolean> {
+		try {
+			await this.publisher.publish(entry.event);
+			this.outbox.markDelivered(entry.event.id);
+			return true;
+		} catch (error: any) {
+			console.error(
+				`Error delivering ${entry.event.type} event ${entry.event.id}:`,
+				error.response?.data || error.message
+			);
+			this.outbox.markFailed(
+				entry.event.id,
+				error.message,
+				now + this.backoff(entry.attempts) * 1000
+			);
+			return false;
+		}
+	}
+
+	private backoff(attempts: number): number {
+		return Math.min(
+			this.retryBaseSeconds * 2 ** attempts,
+			this.retryMaxSeconds
+		);
+	}
+}
+
+export const outboxRelay = new OutboxRelay();
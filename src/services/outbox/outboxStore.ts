@@ -0,0 +1,61 @@
+import { DomainEvent } from "../../ports/events/eventPublisher";
+
+export interface OutboxEntry {
+	event: DomainEvent;
+	// Entries sharing a key (one user's cart) go out in the order added.
+	key: string;
+	attempts: number;
+	nextAttemptAt: number;
+	lastError?: string;
+}
+
+// Events wait here until the relay has delivered them. They are added in
+// the same step as the rest of a change's local bookkeeping, so a change
+// is never recorded without its event or the other way round.
+export class OutboxStore {
+	private readonly entries: OutboxEntry[] = [];
+
+	add(key: string, events: DomainEvent[], now: number = Date.now()): void {
+		for (const event of events) {
+			this.entries.push({ event, key, attempts: 0, nextAttemptAt: now });
+		}
+	}
+
+	list(): OutboxEntry[] {
+		return this.entries.map((entry) => ({ ...entry }));
+	}
+
+	// The entries the relay should try now: the oldest pending entry for
+	// each key, so one cart's events never overtake each other.
+	due(now: number = Date.now()): OutboxEntry[] {
+		const seen = new Set<string>();
+		const due: OutboxEntry[] = [];
+		for (const entry of this.entries) {
+			if (seen.has(entry.key)) continue;
+			seen.add(entry.key);
+			if (entry.nextAttemptAt <= now) due.push({ ...entry });
+		}
+		return due;
+	}
+
+	markDelivered(eventId: string): void {
+		const index = this.entries.findIndex(
+			(entry) => entry.event.id === eventId
+		);
+		if (index >= 0) this.entries.splice(index, 1);
+	}
+
+	markFailed(eventId: string, error: string, nextAttemptAt: number): void {
+		const entry = this.entries.find((entry) => entry.event.id === eventId);
+		if (!entry) return;
+		entry.attempts++;
+		entry.lastError = error;
+		entry.nextAttemptAt = nextAttemptAt;
+	}
+
+	clear(): void {
+		this.entries.length = 0;
+	}
+}
+
+export const outboxStore = new OutboxStore();
@@ -0,0 +1,70 @@
+import { roundMoney } from "./promotions/promoEngine";
+
+export interface PriceChange {
+	inventory_id: number;
+	direction: "increase" | "decrease";
+	old_price: number;
+	new_price: number;
+}
+
+// Remembers the unit price each customer saw when they added an item, keyed
+// by user and inventory item like stock holds.
+export class PriceSnapshotStore {
+	private readonly snapshots = new Map<string, number>();
+
+	record(userId: number, inventoryId: number, unitPrice: number): void {
+		this.snapshots.set(this.key(userId, inventoryId), unitPrice);
+	}
+
+	get(userId: number, inventoryId: number): number | undefined {
+		return this.snapshots.get(this.key(userId, inventoryId));
+	}
+
+	release(userId: number, inventoryId: number): void {
+		this.snapshots.delete(this.key(userId, inventoryId));
+	}
+
+	releaseAll(userId: number): void {
+		for (const key of this.snapshots.keys()) {
+			if (key.startsWith(`${userId}:`)) this.snapshots.delete(key);
+		}
+	}
+
+	changeFor(
+		userId: number,
+		inventoryId: number,
+		currentPrice: number
+	): PriceChange | undefined {
+		const snapshot = this.get(userId, inventoryId);
+		if (snapshot === undefined || snapshot === currentPrice) return;
+		return {
+			inventory_id: Number(inventoryId),
+			direction: currentPrice > snapshot ? "increase" : "decrease",
+			old_price: roundMoney(snapshot),
+			new_price: roundMoney(currentPrice),
+		};
+	}
+
+	// One entry per item, however many cart lines hold it.
+	changesFor(
+		userId: number,
+		lines: { inventory_id: number; price: number }[]
+	): PriceChange[] {
+		const changes = new Map<number, PriceChange>();
+		for (const line of lines) {
+			const change = this.changeFor(
+				userId,
+				line.inventory_id,
+				line.price
+			);
+			if (change) changes.set(change.inventory_id, change);
+		}
+		return [...changes.values()];
+	}
+
+	private key(userId: number, inventoryId: number): string {
+		return `${userId}:${inventoryId}`;
+	}
+}
+
+export const priceSnapshotStore = new PriceSnapshotStore();
@@ -0,0 +1,17 @@
+export type ProductCategory = "beer" | "merchandise" | "non_alcoholic";
+
+// Inventory rows without a category are beer, which is what the brewery
+// database held before merchandise was added.
+export const productCategory = (category?: string): ProductCategory => {
+	const normalized = category?.toLowerCase().replace(/[\s-]/g, "_");
+	if (normalized === "merchandise" || normalized === "merch") {
+		return "merchandise";
+	}
+	if (normalized === "non_alcoholic" || normalized === "na") {
+		return "non_alcoholic";
+	}
+	return "beer";
+};
+
+export const isAlcoholic = (category?: string): boolean =>
+	productCategory(category) === "beer";
@@ -0,0 +1,145 @@
+import { config } from "../../../config/config";
+import { Promotion } from "../catalog";
+import {
+	PricedLine,
+	applyDiscounts,
+	evaluatePromotion,
+	roundMoney,
+	subtotalOf,
+} from "../promoEngine";
+
+describe("promoEngine", () => {
+	const lines: PricedLine[] = [
+		{ inventory_id: 1, quantity: 3, price: 4, style: "Hazy IPA" },
+		{ inventory_id: 2, quantity: 2, price: 20, style: "Stout" },
+	];
+
+	// Test percentage discounts only touch matching styles
+	it("should apply percent-off discounts to matching styles", () => {
+		const promotion: Promotion = {
+			code: "IPA10",
+			type: "percent_off",
+			description: "10% off IPAs",
+			percent: 10,
+			styles: ["ipa"],
+		};
+
+		const result = evaluatePromotion(promotion, lines, { usageCount: 0 });
+
+		expect(result).toEqual({
+			eligible: true,
+			discounts: [
+				{
+					code: "IPA10",
+					description: "10% off IPAs",
+					inventory_id: 1,
+					amount: 1.2,
+				},
+			],
+		});
+	});
+
+	// Test buy-x-get-y gives away whole groups only
+	it("should discount free units for buy-x-get-y", () => {
+		const promotion: Promotion = {
+			code: "B2G1",
+			type: "buy_x_get_y",
+			description: "Buy 2, get 1 free",
+			buy: 2,
+			get: 1,
+		};
+
+		const result = evaluatePromotion(promotion, lines, { usageCount: 0 });
+
+		// Only the 3-unit line forms a full group
+		expect(result.eligible && result.discounts).toEqual([
+			{
+				code: "B2G1",
+				description: "Buy 2, get 1 free",
+				inventory_id: 1,
+				amount: 4,
+			},
+		]);
+	});
+
+	// Test the fixed amount never exceeds the subtotal
+	it("should cap amount-off discounts at the subtotal", () => {
+		const promotion: Promotion = {
+			code: "BIG",
+			type: "amount_off",
+			description: "$100 off",
+			amount: 100,
+		};
+
+		const result = evaluatePromotion(promotion, lines, { usageCount: 0 });
+
+		expect(result.eligible && result.discounts[0].amount).toBe(52);
+		expect(
+			applyDiscounts(
+				subtotalOf(lines),
+				result.eligible ? result.discounts : []
+			)
+		).toBe(0);
+	});
+
+	// Test eligibility checks
+	it("should reject expired codes", () => {
+		const promotion: Promotion = {
+			code: "OLD",
+			type: "amount_off",
+			description: "$5 off",
+			amount: 5,
+			expiresAt: "2020-01-01T00:00:00Z",
+		};
+
+		expect(evaluatePromotion(promotion, lines, { usageCount: 0 })).toEqual({
+			eligible: false,
+			code: "PROMO_EXPIRED",
+			message: "Promo code has expired",
+		});
+	});
+
+	it("should reject codes the user has used up", () => {
+		const promotion: Promotion = {
+			code: "ONCE",
+			type: "amount_off",
+			description: "$5 off",
+			amount: 5,
+			maxUsesPerUser: 1,
+		};
+
+		const result = evaluatePromotion(promotion, lines, { usageCount: 1 });
+
+		expect(!result.eligible && result.code).toBe(
+			"PROMO_USAGE_LIMIT_REACHED"
+		);
+	});
+
+	it("should reject codes that match nothing in the cart", () => {
+		const promotion: Promotion = {
+			code: "LAGER",
+			type: "percent_off",
+			description: "Lager deal",
+			percent: 5,
+			styles: ["Lager"],
+		};
+
+		const result = evaluatePromotion(promotion, lines, { usageCount: 0 });
+
+		expect(!result.eligible && result.code).toBe("PROMO_NOT_APPLICABLE");
+	});
+
+	// Test base amounts follow the base currency's smallest unit
+	it("should round money to the base currency", () => {
+		const baseCurrency = config.baseCurrency;
+		try {
+			expect(roundMoney(1.005)).toBe(1.01);
+			config.baseCurrency = "JPY";
+			expect(roundMoney(1234.5)).toBe(1235);
+			config.baseCurrency = "CHF";
+			expect(roundMoney(12.37)).toBe(12.35);
+		} finally {
+			config.baseCurrency = baseCurrency;
+		}
+	});
+});
@@ -0,0 +1,74 @@
+interface PromotionBase {
+	code: string;
+	description: string;
+	startsAt?: string;
+	expiresAt?: string;
+	minSubtotal?: number;
+	maxUsesPerUser?: number;
+	styles?: string[];
+	inventoryIds?: number[];
+}
+
+export interface PercentOffPromotion extends PromotionBase {
+	type: "percent_off";
+	percent: number;
+}
+
+export interface AmountOffPromotion extends PromotionBase {
+	type: "amount_off";
+	amount: number;
+}
+
+export interface BuyXGetYPromotion extends PromotionBase {
+	type: "buy_x_get_y";
+	buy: number;
+	get: number;
+}
+
+export type Promotion =
+	| PercentOffPromotion
+	| AmountOffPromotion
+	| BuyXGetYPromotion;
+
+export const defaultPromotions: Promotion[] = [
+	{
+		code: "IPA10",
+		type: "percent_off",
+		description: "10% off IPAs",
+		percent: 10,
+		styles: ["IPA"],
+	},
+	{
+		code: "SAVE5",
+		type: "amount_off",
+		description: "$5 off orders over $50",
+		amount: 5,
+		minSubtotal: 50,
+		maxUsesPerUser: 1,
+	},
+	{
+		code: "B2G1",
+		type: "buy_x_get_y",
+		description: "Buy 2, get 1 free",
+		buy: 2,
+		get: 1,
+	},
+];
+
+export class PromotionCatalog {
+	private readonly promotions = new Map<string, Promotion>();
+
+	constructor(promotions: Promotion[] = defaultPromotions) {
+		promotions.forEach((promotion) => this.register(promotion));
+	}
+
+	register(promotion: Promotion): void {
+		this.promotions.set(promotion.code.toUpperCase(), promotion);
+	}
+
+	find(code: string): Promotion | undefined {
+		return this.promotions.get(code.toUpperCase());
+	}
+}
+
+export const promotionCatalog = new PromotionCatalog();
@@ -0,0 +1,168 @@
+import { config } from "../../config/config";
+import { roundToCurrency } from "../currency/currencies";
+import { Promotion } from "./catalog";
+
+export interface PricedLine {
+	inventory_id: number;
+	quantity: number;
+	price: number;
+	style?: string;
+	category?: string;
+	volumeMl?: number;
+	containerType?: string;
+	containerSizeMl?: number;
+	unitsPerPack?: number;
+}
+
+export interface AppliedDiscount {
+	code: string;
+	description: string;
+	amount: number;
+	inventory_id?: number;
+}
+
+export type PromoErrorCode =
+	| "PROMO_NOT_STARTED"
+	| "PROMO_EXPIRED"
+	| "PROMO_MIN_SPEND_NOT_MET"
+	| "PROMO_USAGE_LIMIT_REACHED"
+	| "PROMO_NOT_APPLICABLE";
+
+export type PromoEvaluation =
+	| { eligible: true; discounts: AppliedDiscount[] }
+	| { eligible: false; code: PromoErrorCode; message: string };
+
+export interface PromoContext {
+	usageCount: number;
+	now?: Date;
+}
+
+// Base amounts are kept in the smallest unit of the base currency.
+export const roundMoney = (amount: number): number =>
+	roundToCurrency(amount, config.baseCurrency);
+
+export const subtotalOf = (lines: PricedLine[]): number =>
+	roundMoney(
+		lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+	);
+
+const matchesPromotion = (promotion: Promotion, line: PricedLine): boolean => {
+	if (
+		promotion.inventoryIds &&
+		!promotion.inventoryIds.includes(Number(line.inventory_id))
+	) {
+		return false;
+	}
+	if (promotion.styles) {
+		const style = line.style?.toLowerCase() ?? "";
+		return promotion.styles.some((s) => style.includes(s.toLowerCase()));
+	}
+	return true;
+};
+
+const computeDiscounts = (
+	promotion: Promotion,
+	lines: PricedLine[],
+	subtotal: number
+): AppliedDiscount[] => {
+	const base = { code: promotion.code, description: promotion.description };
+	const eligibleLines = lines.filter((line) =>
+		matchesPromotion(promotion, line)
+	);
+	switch (promotion.type) {
+		case "percent_off":
+			return eligibleLines.map((line) => ({
+				...base,
+				inventory_id: line.inventory_id,
+				amount: roundMoney(
+					(line.price * line.quantity * promotion.percent) / 100
+				),
+			}));
+		case "amount_off": {
+			const eligibleSubtotal = subtotalOf(eligibleLines);
+			if (eligibleSubtotal <= 0) return [];
+			return [
+				{
+					...base,
+					amount: roundMoney(
+						Math.min(promotion.amount, eligibleSubtotal, subtotal)
+					),
+				},
+			];
+		}
+		case "buy_x_get_y": {
+			const groupSize = promotion.buy + promotion.get;
+			return eligibleLines
+				.map((line) => ({
+					...base,
+					inventory_id: line.inventory_id,
+					amount: roundMoney(
+						Math.floor(line.quantity / groupSize) *
+							promotion.get *
+							line.price
+					),
+				}))
+				.filter((discount) => discount.amount > 0);
+		}
+	}
+};
+
+export const evaluatePromotion = (
+	promotion: Promotion,
+	lines: PricedLine[],
+	context: PromoContext
+): PromoEvaluation => {
+	const now = context.now ?? new Date();
+	if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+		return {
+			eligible: false,
+			code: "PROMO_NOT_STARTED",
+			message: "Promo code is not active yet",
+		};
+	}
+	if (promotion.expiresAt && now > new Date(promotion.expiresAt)) {
+		return {
+			eligible: false,
+			code: "PROMO_EXPIRED",
+			message: "Promo code has expired",
+		};
+	}
+	const subtotal = subtotalOf(lines);
+	if (
+		promotion.minSubtotal !== undefined &&
+		subtotal < promotion.minSubtotal
+	) {
+		return {
+			eligible: false,
+			code: "PROMO_MIN_SPEND_NOT_MET",
+			message: `Promo code requires a minimum spend of ${promotion.minSubtotal}`,
+		};
+	}
+	if (
+		promotion.maxUsesPerUser !== undefined &&
+		context.usageCount >= promotion.maxUsesPerUser
+	) {
+		return {
+			eligible: false,
+			code: "PROMO_USAGE_LIMIT_REACHED",
+			message: "Promo code usage limit reached",
+		};
+	}
+	const discounts = computeDiscounts(promotion, lines, subtotal);
+	if (discounts.length === 0) {
+		return {
+			eligible: false,
+			code: "PROMO_NOT_APPLICABLE",
+			message: "Promo code does not apply to any items in the cart",
+		};
+	}
+	return { eligible: true, discounts };
+};
+
+export const applyDiscounts = (
+	subtotal: number,
+	discounts: AppliedDiscount[]
+): number =>
+	roundMoney(
+		Math.max(0, subtotal - discounts.reduce((sum, d) => sum + d.amount, 0))
+	);
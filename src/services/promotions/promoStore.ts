@@ -0,0 +1,33 @@
+export class PromoStore {
+	private readonly applied = new Map<number, string>();
+	private readonly redemptions = new Map<string, number>();
+
+	getAppliedCode(userId: number): string | undefined {
+		return this.applied.get(userId);
+	}
+
+	apply(userId: number, code: string): void {
+		this.applied.set(userId, code.toUpperCase());
+	}
+
+	remove(userId: number): boolean {
+		return this.applied.delete(userId);
+	}
+
+	usageCount(userId: number, code: string): number {
+		return this.redemptions.get(this.key(userId, code)) ?? 0;
+	}
+
+	// Called once an order using the code has been placed; applying a code to
+	// a cart does not count as a use.
+	recordRedemption(userId: number, code: string): void {
+		const key = this.key(userId, code);
+		this.redemptions.set(key, (this.redemptions.get(key) ?? 0) + 1);
+	}
+
+	private key(userId: number, code: string): string {
+		return `${userId}:${code.toUpperCase()}`;
+	}
+}
+
+export const promoStore = new PromoStore();
@@ -0,0 +1,60 @@
+import { ReservationStore } from "../reservationStore";
+
+describe("ReservationStore", () => {
+	let store: ReservationStore;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+		store = new ReservationStore(60_000);
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		store.stopSweeper();
+		jest.useRealTimers();
+	});
+
+	// Test holds adjust and release
+	it("should adjust holds and release them at zero", () => {
+		store.adjust(1, 1, 2);
+		store.adjust(1, 1, 3);
+		expect(store.get(1, 1)?.quantity).toBe(5);
+
+		store.adjust(1, 1, -5);
+		expect(store.get(1, 1)).toBeUndefined();
+	});
+
+	// Test other customers' holds reduce availability
+	it("should only subtract other customers' holds", () => {
+		store.hold(1, 7, 3);
+		store.hold(2, 7, 4);
+
+		expect(store.availableStock(7, 10, 1)).toBe(6);
+		expect(store.availableStock(7, 10)).toBe(3);
+		expect(store.availableStock(7, 5, 3)).toBe(0);
+	});
+
+	// Test expiry and the sweeper
+	it("should stop counting expired holds and reclaim them", () => {
+		store.hold(2, 7, 4);
+		store.startSweeper(30_000);
+
+		jest.advanceTimersByTime(60_000);
+		expect(store.availableStock(7, 10, 1)).toBe(10);
+		expect(store.get(2, 7)).toBeUndefined();
+
+		// The sweeper has already dropped it
+		jest.advanceTimersByTime(30_000);
+		expect(store.reclaimExpired()).toEqual([]);
+	});
+
+	// Test re-holding refreshes the expiry
+	it("should extend the expiry when a hold changes", () => {
+		store.hold(1, 1, 1);
+		jest.advanceTimersByTime(45_000);
+		const hold = store.adjust(1, 1, 1);
+
+		expect(hold.expiresAt).toBe(Date.now() + 60_000);
+	});
+});
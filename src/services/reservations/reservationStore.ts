@@ -0,0 +1,110 @@
+import { config } from "../../config/config";
+
+export interface Reservation {
+	userId: number;
+	inventoryId: number;
+	quantity: number;
+	expiresAt: number;
+}
+
+// Holds are keyed by user and inventory item rather than cart line, so every
+// line for the same item shares one hold.
+export class ReservationStore {
+	private readonly holds = new Map<string, Reservation>();
+	private sweeper?: NodeJS.Timeout;
+
+	constructor(
+		private readonly ttlMs: number = config.reservationTtlSeconds * 1000
+	) {}
+
+	get(userId: number, inventoryId: number): Reservation | undefined {
+		const hold = this.holds.get(this.key(userId, inventoryId));
+		return hold && hold.expiresAt > Date.now() ? { ...hold } : undefined;
+	}
+
+	hold(userId: number, inventoryId: number, quantity: number): Reservation {
+		if (quantity <= 0) {
+			this.release(userId, inventoryId);
+			return { userId, inventoryId, quantity: 0, expiresAt: Date.now() };
+		}
+		const hold = {
+			userId,
+			inventoryId,
+			quantity,
+			expiresAt: Date.now() + this.ttlMs,
+		};
+		this.holds.set(this.key(userId, inventoryId), hold);
+		return { ...hold };
+	}
+
+	adjust(userId: number, inventoryId: number, delta: number): Reservation {
+		const current = this.get(userId, inventoryId)?.quantity ?? 0;
+		return this.hold(userId, inventoryId, current + delta);
+	}
+
+	release(userId: number, inventoryId: number): void {
+		this.holds.delete(this.key(userId, inventoryId));
+	}
+
+	releaseAll(userId: number): void {
+		for (const [key, hold] of this.holds) {
+			if (hold.userId === userId) this.holds.delete(key);
+		}
+	}
+
+	// Stock left for a customer once everyone else's active holds are taken
+	// out; guests pass no user id and see every hold.
+	availableStock(
+		inventoryId: number,
+		stockQuantity: number,
+		userId?: number
+	): number {
+		const now = Date.now();
+		let held = 0;
+		for (const hold of this.holds.values()) {
+			if (
+				hold.inventoryId.toString() === inventoryId.toString() &&
+				hold.userId !== userId &&
+				hold.expiresAt > now
+			) {
+				held += hold.quantity;
+			}
+		}
+		return Math.max(0, stockQuantity - held);
+	}
+
+	reclaimExpired(now: number = Date.now()): Reservation[] {
+		const reclaimed: Reservation[] = [];
+		for (const [key, hold] of this.holds) {
+			if (hold.expiresAt <= now) {
+				this.holds.delete(key);
+				reclaimed.push(hold);
+			}
+		}
+		return reclaimed;
+	}
+
+	startSweeper(
+		intervalMs: number = config.reservationSweepIntervalSeconds * 1000
+	): void {
+		this.stopSweeper();
+		this.sweeper = setInterval(() => {
+			const reclaimed = this.reclaimExpired();
+			if (reclaimed.length > 0) {
+				console.log(`Reclaimed ${reclaimed.length} expired holds`);
+			}
+		}, intervalMs);
+		this.sweeper.unref();
+	}
+
+	stopSweeper(): void {
+		if (this.sweeper) clearInterval(this.sweeper);
+		this.sweeper = undefined;
+	}
+
+	private key(userId: number, inventoryId: number): string {
+		return `${userId}:${inventoryId}`;
+	}
+}
+
+export const reservationStore = new ReservationStore();
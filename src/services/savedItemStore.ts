@@ -0,0 +1,58 @@
+export interface SavedItem {
+	id: number;
+	user_id: number;
+	inventory_id: number;
+	quantity: number;
+	saved_at: string;
+}
+
+export class SavedItemStore {
+	private readonly items = new Map<number, SavedItem[]>();
+	private nextId = 1;
+
+	list(userId: number): SavedItem[] {
+		return (this.items.get(userId) ?? []).map((item) => ({ ...item }));
+	}
+
+	get(userId: number, id: number): SavedItem | undefined {
+		const item = this.items.get(userId)?.find((saved) => saved.id === id);
+		return item && { ...item };
+	}
+
+	// Saving an item that is already on the list adds to its quantity.
+	save(userId: number, inventoryId: number, quantity: number): SavedItem {
+		const items = this.items.get(userId) ?? [];
+		this.items.set(userId, items);
+		const existing = items.find(
+			(item) => item.inventory_id === inventoryId
+		);
+		if (existing) {
+			existing.quantity += quantity;
+			existing.saved_at = new Date().toISOString();
+			return { ...existing };
+		}
+		const item: SavedItem = {
+			id: this.nextId++,
+			user_id: userId,
+			inventory_id: inventoryId,
+			quantity,
+			saved_at: new Date().toISOString(),
+		};
+		items.push(item);
+		return { ...item };
+	}
+
+	remove(userId: number, id: number): boolean {
+		const items = this.items.get(userId);
+		if (!items) return false;
+		const remaining = items.filter((item) => item.id !== id);
+		this.items.set(userId, remaining);
+		return remaining.length < items.length;
+	}
+
+	clear(userId: number): void {
+		this.items.delete(userId);
+	}
+}
+
+export const savedItemStore = new SavedItemStore();
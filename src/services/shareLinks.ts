@@ -0,0 +1,44 @@
+import jwt from "jsonwebtoken";
+import { config } from "../config/config";
+
+export interface SharedCart {
+	userId: number;
+	cartId: string;
+	expiresAt: string;
+}
+
+// Share tokens are signed with the same secret as user tokens, so
+// verifyToken turns them away by their type.
+export const SHARE_TOKEN_TYPE = "cart_share";
+
+export const issueShareToken = (
+	userId: number,
+	cartId: string,
+	ttlSeconds: number = config.shareLinkTtlSeconds
+): { token: string; expiresAt: string } => {
+	const token = jwt.sign(
+		{ sub: userId.toString(), cart: cartId, type: SHARE_TOKEN_TYPE },
+		config.jwtSecret,
+		{ expiresIn: ttlSeconds }
+	);
+	return { token, expiresAt: decodeShareToken(token)!.expiresAt };
+};
+
+export const decodeShareToken = (token: string): SharedCart | null => {
+	try {
+		const decoded = jwt.verify(token, config.jwtSecret) as {
+			sub: string;
+			cart: string;
+			type?: string;
+			exp: number;
+		};
+		if (decoded.type !== SHARE_TOKEN_TYPE) return null;
+		return {
+			userId: parseInt(decoded.sub, 10),
+			cartId: decoded.cart,
+			expiresAt: new Date(decoded.exp * 1000).toISOString(),
+		};
+	} catch (error) {
+		return null;
+	}
+};
@@ -0,0 +1,54 @@
+import { TaxCalculator } from "../taxCalculator";
+
+describe("TaxCalculator", () => {
+	// Test the default HST province
+	it("should charge HST on every category in Ontario", () => {
+		const calculator = new TaxCalculator();
+
+		const taxes = calculator.calculate("on", [
+			{ category: "beer", amount: 20, quantity: 4 },
+			{ category: "merchandise", amount: 10, quantity: 1 },
+		]);
+
+		expect(taxes).toEqual([{ name: "HST", rate: 13, amount: 3.9 }]);
+	});
+
+	// Test category-specific rules
+	it("should only apply rules to their categories", () => {
+		const calculator = new TaxCalculator();
+
+		const taxes = calculator.calculate("SK", [
+			{ category: "non_alcoholic", amount: 10, quantity: 2 },
+		]);
+
+		expect(taxes).toEqual([
+			{ name: "GST", rate: 5, amount: 0.5 },
+			{ name: "PST", rate: 6, amount: 0.6 },
+		]);
+	});
+
+	// Test per-litre excise rules from a custom table
+	it("should charge per-litre duties on product volume", () => {
+		const calculator = new TaxCalculator({
+			XX: [{ name: "Beer excise", perLitre: 0.4, categories: ["beer"] }],
+		});
+
+		const taxes = calculator.calculate("XX", [
+			{ category: "beer", amount: 12, quantity: 4, volumeMl: 500 },
+			{ category: "merchandise", amount: 25, quantity: 1 },
+		]);
+
+		expect(taxes).toEqual([
+			{ name: "Beer excise", per_litre: 0.4, amount: 0.8 },
+		]);
+	});
+
+	// Test jurisdiction lookups
+	it("should report which provinces it supports", () => {
+		const calculator = new TaxCalculator();
+
+		expect(calculator.supports("qc")).toBe(true);
+		expect(calculator.supports("ZZ")).toBe(false);
+		expect(calculator.calculate("ZZ", [])).toEqual([]);
+	});
+});
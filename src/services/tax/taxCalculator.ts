@@ -0,0 +1,82 @@
+import fs from "fs";
+import { config } from "../../config/config";
+import { ProductCategory } from "../productCategory";
+import { roundMoney } from "../promotions/promoEngine";
+import { TaxRateTable, defaultTaxRates } from "./taxRates";
+
+export interface TaxableLine {
+	category: ProductCategory;
+	// Line amount after discounts.
+	amount: number;
+	quantity: number;
+	volumeMl?: number;
+}
+
+export interface TaxLine {
+	name: string;
+	rate?: number;
+	per_litre?: number;
+	amount: number;
+}
+
+export class TaxCalculator {
+	private readonly rates: TaxRateTable;
+
+	constructor(rates: TaxRateTable = defaultTaxRates) {
+		this.rates = Object.fromEntries(
+			Object.entries(rates).map(([province, rules]) => [
+				province.toUpperCase(),
+				rules,
+			])
+		);
+	}
+
+	supports(province: string): boolean {
+		return province.toUpperCase() in this.rates;
+	}
+
+	calculate(province: string, lines: TaxableLine[]): TaxLine[] {
+		const rules = this.rates[province.toUpperCase()] ?? [];
+		return rules
+			.map((rule) => {
+				const applicable = lines.filter(
+					(line) =>
+						!rule.categories ||
+						rule.categories.includes(line.category)
+				);
+				const percentTax = rule.rate
+					? applicable.reduce(
+							(sum, line) =>
+								sum + (line.amount * rule.rate!) / 100,
+							0
+						)
+					: 0;
+				const volumeTax = rule.perLitre
+					? applicable.reduce(
+							(sum, line) =>
+								sum +
+								((line.volumeMl ?? 0) / 1000) *
+									line.quantity *
+									rule.perLitre!,
+							0
+						)
+					: 0;
+				return {
+					name: rule.name,
+					...(rule.rate !== undefined && { rate: rule.rate }),
+					...(rule.perLitre !== undefined && {
+						per_litre: rule.perLitre,
+					}),
+					amount: roundMoney(percentTax + volumeTax),
+				};
+			})
+			.filter((line) => line.amount > 0);
+	}
+}
+
+const loadTaxRates = (): TaxRateTable =>
+	config.taxRatesFile
+		? JSON.parse(fs.readFileSync(config.taxRatesFile, "utf8"))
+		: defaultTaxRates;
+
+export const taxCalculator = new TaxCalculator(loadTaxRates());
@@ -0,0 +1,40 @@
+import { ProductCategory } from "../productCategory";
+
+export interface TaxRule {
+	name: string;
+	// Percentage of the taxable amount, e.g. 13 for 13%.
+	rate?: number;
+	// Flat amount charged per litre of product, for excise-style duties.
+	perLitre?: number;
+	// Categories the rule applies to; every category when omitted.
+	categories?: ProductCategory[];
+}
+
+export type TaxRateTable = Record<string, TaxRule[]>;
+
+const GST: TaxRule = { name: "GST", rate: 5 };
+const hst = (rate: number): TaxRule[] => [{ name: "HST", rate }];
+
+export const defaultTaxRates: TaxRateTable = {
+	AB: [GST],
+	BC: [
+		GST,
+		{ name: "PST", rate: 7, categories: ["merchandise", "non_alcoholic"] },
+		{ name: "PST (liquor)", rate: 10, categories: ["beer"] },
+	],
+	MB: [GST, { name: "RST", rate: 7 }],
+	NB: hst(15),
+	NL: hst(15),
+	NS: hst(14),
+	NT: [GST],
+	NU: [GST],
+	ON: hst(13),
+	PE: hst(15),
+	QC: [GST, { name: "QST", rate: 9.975 }],
+	SK: [
+		GST,
+		{ name: "PST", rate: 6, categories: ["merchandise", "non_alcoholic"] },
+		{ name: "Liquor Consumption Tax", rate: 10, categories: ["beer"] },
+	],
+	YT: [GST],
+};
@@ -0,0 +1,143 @@
+import { createHmac } from "crypto";
+import { WebhookRequest } from "../../../ports/webhooks/webhookSender";
+import { createCartEvent } from "../../events/cartEvents";
+import { WebhookDeliveryStore } from "../webhookDeliveryStore";
+import { WebhookDispatcher } from "../webhookDispatcher";
+import { WebhookSubscriptionStore } from "../webhookSubscriptionStore";
+
+describe("WebhookDispatcher", () => {
+	const start = Date.parse("2026-10-19T12:00:00.000Z");
+	let subscriptions: WebhookSubscriptionStore;
+	let deliveries: WebhookDeliveryStore;
+	let sent: WebhookRequest[];
+	let send: jest.Mock;
+	let dispatcher: WebhookDispatcher;
+
+	const cleared = () => createCartEvent("CartCleared", { user_id: 1 });
+
+	const hmac = (secret: string, payload: string) =>
+		createHmac("sha256", secret).update(payload).digest("hex");
+
+	const failWith = (status: number) =>
+		Object.assign(new Error(`Request failed with status code ${status}`), {
+			response: { status },
+		});
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.setSystemTime(start);
+		subscriptions = new WebhookSubscriptionStore();
+		deliveries = new WebhookDeliveryStore();
+		sent = [];
+		send = jest.fn(async (request: WebhookRequest) => {
+			sent.push(request);
+		});
+		dispatcher = new WebhookDispatcher(
+			subscriptions,
+			deliveries,
+			{ send },
+			{ maxAttempts: 3, retryBaseSeconds: 10, retryMaxSeconds: 15 }
+		);
+		jest.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+	});
+
+	// Test deliveries are signed with the subscription's secret
+	it("should post the event with an HMAC signature", async () => {
+		const subscription = subscriptions.create("http://partner/hooks", [
+			"CartCleared",
+		]);
+		const event = cleared();
+		await dispatcher.publish(event);
+
+		expect(await dispatcher.deliverDue(start)).toBe(1);
+
+		const [request] = sent;
+		expect(request.url).toBe("http://partner/hooks");
+		expect(JSON.parse(request.body)).toEqual(event);
+		expect(request.headers).toEqual(
+			expect.objectContaining({
+				"X-Event-Id": event.id,
+				"X-Event-Type": "CartCleared",
+			})
+		);
+		const timestamp = Math.floor(start / 1000);
+		expect(request.headers["X-Webhook-Signature"]).toBe(
+			`t=${timestamp},v1=${hmac(
+				subscription.secret,
+				`${timestamp}.${request.body}`
+			)}`
+		);
+	});
+
+	// Test only subscribed event types are delivered
+	it("should skip subscriptions that didn't pick the event type", async () => {
+		subscriptions.create("http://partner/hooks", ["CartItemAdded"]);
+
+		await dispatcher.publish(cleared());
+
+		expect(await dispatcher.deliverDue(start)).toBe(0);
+		expect(send).not.toHaveBeenCalled();
+	});
+
+	// Test backoff, dead letters and replay
+	it("should back off, dead-letter after the last attempt and replay", async () => {
+		const subscription = subscriptions.create("http://partner/hooks", [
+			"CartCleared",
+		]);
+		await dispatcher.publish(cleared());
+		send.mockRejectedValue(failWith(503));
+
+		await dispatcher.deliverDue(start);
+		await dispatcher.deliverDue(start + 9000);
+		expect(send).toHaveBeenCalledTimes(1);
+		await dispatcher.deliverDue(start + 10000);
+		// The second delay doubles to 20s but is capped at 15s
+		await dispatcher.deliverDue(start + 25000);
+		expect(send).toHaveBeenCalledTimes(3);
+
+		const [dead] = deliveries.deadLetters(subscription.id);
+		expect(dead).toEqual(
+			expect.objectContaining({
+				status: "dead",
+				attempts: 3,
+				last_response_status: 503,
+			})
+		);
+		expect(await dispatcher.deliverDue(start + 60000)).toBe(0);
+
+		send.mockResolvedValue(undefined);
+		deliveries.replay(dead.id, start + 60000);
+		expect(await dispatcher.deliverDue(start + 60000)).toBe(1);
+		expect(deliveries.deadLetters(subscription.id)).toEqual([]);
+	});
+
+	// Test both secrets sign deliveries during a rotation
+	it("should sign with the old secret too until its grace period ends", async () => {
+		const original = subscriptions.create("http://partner/hooks", [
+			"CartCleared",
+		]);
+		const rotated = subscriptions.rotateSecret(original.id, 60, start)!;
+
+		await dispatcher.publish(cleared());
+		await dispatcher.deliverDue(start);
+		await dispatcher.publish(cleared());
+		await dispatcher.deliverDue(start + 61000);
+
+		const [during, after] = sent.map((request) =>
+			request.headers["X-Webhook-Signature"].split(",v1=")
+		);
+		expect(during).toHaveLength(3);
+		expect(during[1]).toBe(
+			hmac(rotated.secret, `${Math.floor(start / 1000)}.${sent[0].body}`)
+		);
+		expect(during[2]).toBe(
+			hmac(original.secret, `${Math.floor(start / 1000)}.${sent[0].body}`)
+		);
+		expect(after).toHaveLength(2);
+	});
+});
@@ -0,0 +1,109 @@
+import { DomainEvent } from "../../ports/events/eventPublisher";
+
+// Delivered webhooks are dropped; the ones that ran out of attempts stay
+// as dead letters until they are replayed or the subscription is deleted.
+export type WebhookDeliveryStatus = "pending" | "dead";
+
+export interface WebhookDelivery {
+	id: string;
+	subscription_id: string;
+	event: DomainEvent;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	next_attempt_at: string;
+	// The receiver's status code, when it answered at all.
+	last_response_status?: number;
+	last_error?: string;
+	created_at: string;
+}
+
+export class WebhookDeliveryStore {
+	private readonly deliveries = new Map<string, WebhookDelivery>();
+	private nextId = 1;
+
+	add(
+		subscriptionId: string,
+		event: DomainEvent,
+		now: number = Date.now()
+	): WebhookDelivery {
+		const at = new Date(now).toISOString();
+		const delivery: WebhookDelivery = {
+			id: `whd_${this.nextId++}`,
+			subscription_id: subscriptionId,
+			event,
+			status: "pending",
+			attempts: 0,
+			next_attempt_at: at,
+			created_at: at,
+		};
+		this.deliveries.set(delivery.id, delivery);
+		return { ...delivery };
+	}
+
+	get(id: string): WebhookDelivery | undefined {
+		const delivery = this.deliveries.get(id);
+		return delivery && { ...delivery };
+	}
+
+	due(now: number = Date.now()): WebhookDelivery[] {
+		return [...this.deliveries.values()]
+			.filter(
+				(delivery) =>
+					delivery.status === "pending" &&
+					Date.parse(delivery.next_attempt_at) <= now
+			)
+			.map((delivery) => ({ ...delivery }));
+	}
+
+	deadLetters(subscriptionId: string): WebhookDelivery[] {
+		return [...this.deliveries.values()]
+			.filter(
+				(delivery) =>
+					delivery.subscription_id === subscriptionId &&
+					delivery.status === "dead"
+			)
+			.map((delivery) => ({ ...delivery }));
+	}
+
+	markDelivered(id: string): void {
+		this.deliveries.delete(id);
+	}
+
+	// Without a next attempt the delivery becomes a dead letter.
+	markFailed(
+		id: string,
+		failure: { error: string; responseStatus?: number },
+		nextAttemptAt?: number
+	): void {
+		const delivery = this.deliveries.get(id);
+		if (!delivery) return;
+		delivery.attempts++;
+		delivery.last_error = failure.error;
+		delivery.last_response_status = failure.responseStatus;
+		if (nextAttemptAt === undefined) {
+			delivery.status = "dead";
+		} else {
+			delivery.next_attempt_at = new Date(nextAttemptAt).toISOString();
+		}
+	}
+
+	// Puts a dead letter back in the queue with a fresh set of attempts.
+	replay(id: string, now: number = Date.now()): WebhookDelivery | undefined {
+		const delivery = this.deliveries.get(id);
+		if (delivery?.status !== "dead") return undefined;
+		delivery.status = "pending";
+		delivery.attempts = 0;
+		delivery.next_attempt_at = new Date(now).toISOString();
+		return { ...delivery };
+	}
+
+	removeForSubscription(subscriptionId: string): void {
+		for (const delivery of [...this.deliveries.values()]) {
+			if (delivery.subscription_id === subscriptionId) {
+				this.deliveries.delete(delivery.id);
+			}
+		}
+	}
+}
+
+export const webhookDeliveryStore = new WebhookDeliveryStore();
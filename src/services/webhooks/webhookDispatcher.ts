@@ -0,0 +1,143 @@
+import { config } from "../../config/config";
+import { DomainEvent, EventPublisher } from "../../ports/events/eventPublisher";
+import { webhookSender } from "../../ports/webhooks";
+import { WebhookSender } from "../../ports/webhooks/webhookSender";
+import {
+	WebhookDelivery,
+	WebhookDeliveryStore,
+	webhookDeliveryStore,
+} from "./webhookDeliveryStore";
+import { WEBHOOK_SIGNATURE_HEADER, signWebhook } from "./webhookSignature";
+import {
+	WebhookSubscriptionStore,
+	webhookSubscriptionStore,
+} from "./webhookSubscriptionStore";
+
+export interface WebhookRetryOptions {
+	maxAttempts: number;
+	retryBaseSeconds: number;
+	retryMaxSeconds: number;
+}
+
+// Publishing only queues a delivery per matching subscription, so it can't
+// fail; the HTTP calls happen in `deliverDue`, each with its own retries.
+export class WebhookDispatcher implements EventPublisher {
+	private timer?: NodeJS.Timeout;
+	private delivering = false;
+
+	constructor(
+		private readonly subscriptions: WebhookSubscriptionStore = webhookSubscriptionStore,
+		private readonly deliveries: WebhookDeliveryStore = webhookDeliveryStore,
+		private readonly sender: WebhookSender = webhookSender,
+		private readonly options: Partial<WebhookRetryOptions> = {}
+	) {}
+
+	async publish(event: DomainEvent): Promise<void> {
+		this.enqueue(event);
+	}
+
+	enqueue(event: DomainEvent): void {
+		for (const subscription of this.subscriptions.subscribedTo(
+			event.type
+		)) {
+			this.deliveries.add(subscription.id, event);
+		}
+	}
+
+	// Returns how many deliveries succeeded.
+	async deliverDue(now: number = Date.now()): Promise<number> {
+		if (this.delivering) return 0;
+		this.delivering = true;
+		let delivered = 0;
+		try {
+			for (const delivery of this.deliveries.due(now)) {
+				if (await this.attempt(delivery, now)) delivered++;
+			}
+		} finally {
+			this.delivering = false;
+		}
+		return delivered;
+	}
+
+	start(
+		intervalMs: number = config.webhookDeliveryIntervalSeconds * 1000
+	): void {
+		this.stop();
+		this.timer = setInterval(() => {
+			this.deliverDue();
+		}, intervalMs);
+		this.timer.unref();
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+	}
+
+	private async attempt(
+		delivery: WebhookDelivery,
+		now: number
+	): Promise<boolean> {
+		const subscription = this.subscriptions.get(delivery.subscription_id);
+		if (!subscription) {
+			this.deliveries.markDelivered(delivery.id);
+			return false;
+		}
+		const body = JSON.stringify(delivery.event);
+		try {
+			await this.sender.send({
+				url: subscription.url,
+				body,
+				headers: {
+					[WEBHOOK_SIGNATURE_HEADER]: signWebhook(
+						body,
+						this.subscriptions.signingSecrets(subscription, now),
+						now
+					),
+					"X-Webhook-Id": delivery.id,
+					"X-Event-Id": delivery.event.id,
+					"X-Event-Type": delivery.event.type,
+				},
+			});
+			this.deliveries.markDelivered(delivery.id);
+			return true;
+		} catch (error: any) {
+			const attempts = delivery.attempts + 1;
+			console.error(
+				`Webhook ${delivery.id} to ${subscription.url} failed (attempt ${attempts}):`,
+				error.response?.status || error.message
+			);
+			this.deliveries.markFailed(
+				delivery.id,
+				{
+					error: error.message,
+					responseStatus: error.response?.status,
+				},
+				attempts < this.setting("maxAttempts")
+					? now + this.backoff(attempts) * 1000
+					: undefined
+			);
+			return false;
+		}
+	}
+
+	private backoff(attempts: number): number {
+		return Math.min(
+			this.setting("retryBaseSeconds") * 2 ** (attempts - 1),
+			this.setting("retryMaxSeconds")
+		);
+	}
+
+	private setting<K extends keyof WebhookRetryOptions>(
+		key: K
+	): WebhookRetryOptions[K] {
+		const defaults: WebhookRetryOptions = {
+			maxAttempts: config.webhookMaxAttempts,
+			retryBaseSeconds: config.webhookRetryBaseSeconds,
+			retryMaxSeconds: config.webhookRetryMaxSeconds,
+		};
+		return this.options[key] ?? defaults[key];
+	}
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,21 @@
+import { createHmac } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// `t=<unix seconds>,v1=<hex>[,v1=<hex>]`: one HMAC-SHA256 of
+// `<t>.<body>` per signing secret. Receivers accept the delivery if any
+// v1 matches, and can reject old timestamps to stop replays.
+export const signWebhook = (
+	body: string,
+	secrets: string[],
+	now: number = Date.now()
+): string => {
+	const timestamp = Math.floor(now / 1000);
+	const signatures = secrets.map(
+		(secret) =>
+			`v1=${createHmac("sha256", secret)
+				.update(`${timestamp}.${body}`)
+				.digest("hex")}`
+	);
+	return [`t=${timestamp}`, ...signatures].join(",");
+};
@@ -0,0 +1,109 @@
+import { randomBytes } from "crypto";
+
+// The cart change events partners can subscribe to.
+export const WEBHOOK_EVENT_TYPES = [
+	"CartItemAdded",
+	"CartItemQuantityChanged",
+	"CartItemRemoved",
+	"CartCleared",
+];
+
+export interface WebhookSubscription {
+	id: string;
+	url: string;
+	event_types: string[];
+	secret: string;
+	// Deliveries are signed with the previous secret too until it expires,
+	// so receivers can switch over after a rotation.
+	previous_secret?: string;
+	previous_secret_expires_at?: string;
+	created_at: string;
+	updated_at: string;
+}
+
+const newSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+export class WebhookSubscriptionStore {
+	private readonly subscriptions = new Map<string, WebhookSubscription>();
+	private nextId = 1;
+
+	list(): WebhookSubscription[] {
+		return [...this.subscriptions.values()].map((subscription) => ({
+			...subscription,
+		}));
+	}
+
+	get(id: string): WebhookSubscription | undefined {
+		const subscription = this.subscriptions.get(id);
+		return subscription && { ...subscription };
+	}
+
+	subscribedTo(eventType: string): WebhookSubscription[] {
+		return this.list().filter((subscription) =>
+			subscription.event_types.includes(eventType)
+		);
+	}
+
+	create(url: string, eventTypes: string[]): WebhookSubscription {
+		const now = new Date().toISOString();
+		const subscription: WebhookSubscription = {
+			id: `wh_${this.nextId++}`,
+			url,
+			event_types: [...new Set(eventTypes)],
+			secret: newSecret(),
+			created_at: now,
+			updated_at: now,
+		};
+		this.subscriptions.set(subscription.id, subscription);
+		return { ...subscription };
+	}
+
+	update(
+		id: string,
+		changes: { url?: string; event_types?: string[] }
+	): WebhookSubscription | undefined {
+		const subscription = this.subscriptions.get(id);
+		if (!subscription) return undefined;
+		if (changes.url !== undefined) subscription.url = changes.url;
+		if (changes.event_types !== undefined) {
+			subscription.event_types = [...new Set(changes.event_types)];
+		}
+		subscription.updated_at = new Date().toISOString();
+		return { ...subscription };
+	}
+
+	rotateSecret(
+		id: string,
+		graceSeconds: number,
+		now: number = Date.now()
+	): WebhookSubscription | undefined {
+		const subscription = this.subscriptions.get(id);
+		if (!subscription) return undefined;
+		subscription.previous_secret = subscription.secret;
+		subscription.previous_secret_expires_at = new Date(
+			now + graceSeconds * 1000
+		).toISOString();
+		subscription.secret = newSecret();
+		subscription.updated_at = new Date(now).toISOString();
+		return { ...subscription };
+	}
+
+	// The secrets a delivery made now should be signed with, newest first.
+	signingSecrets(
+		subscription: WebhookSubscription,
+		now: number = Date.now()
+	): string[] {
+		const previousValid =
+			subscription.previous_secret !== undefined &&
+			Date.parse(subscription.previous_secret_expires_at!) > now;
+		return previousValid
+			? [subscription.secret, subscription.previous_secret!]
+			: [subscription.secret];
+	}
+
+	delete(id: string): boolean {
+		return this.subscriptions.delete(id);
+	}
+}
+
+export const webhookSubscriptionStore = new WebhookSubscriptionStore();